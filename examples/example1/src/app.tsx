@@ -1,12 +1,28 @@
 import { useRef } from "preact/hooks";
 import { NodeSystem, type NodeSystemHandle } from "../../../src/components/NodeSystem/NodeSystem.tsx";
 import type { Connection, NodeData, NodeTypeDef } from "../../../src/components/Node/node.ts";
+import type { TypeConversion } from "../../../src/utils/conversions.ts";
+import type { ConnectionValidator } from "../../../src/utils/validation.ts";
+import { createStructNodeTypes, type StructSchema } from "../../../src/utils/structs.ts";
 import "./app.css";
-import { serializeGraph } from "../../../src/utils/serialize.ts";
 import { deserializeGraph } from "../../../src/utils/deserialize.ts";
+import { createAssetStore, exportGraphBundle, importGraphBundle, internAssets } from "../../../src/utils/assets.ts";
+
+// Objects with named fields; Make / Break nodes are generated for them
+const pointSchema: StructSchema = {
+  id: "point",
+  title: "Point",
+  fields: [
+    { name: "X", type: "number", default: 0 },
+    { name: "Y", type: "number", default: 0 },
+    { name: "Label", type: "string" },
+  ],
+  color: "#009688",
+};
 
 // 1. Define Node Types
 const nodeTypes: Record<string, NodeTypeDef> = {
+  ...createStructNodeTypes(pointSchema),
   add: {
     id: "add",
     title: "Add",
@@ -18,6 +34,7 @@ const nodeTypes: Record<string, NodeTypeDef> = {
     color: "#3f51b5",
     category: "Math",
     showOutputs: true,
+    compute: ({ A, B }) => ({ Result: (parseFloat(A) || 0) + (parseFloat(B) || 0) }),
   },
   subtract: {
     id: "subtract",
@@ -30,6 +47,24 @@ const nodeTypes: Record<string, NodeTypeDef> = {
     color: "#f44336",
     category: "Math",
     showOutputs: true,
+    compute: ({ A, B }) => ({ Result: (parseFloat(A) || 0) - (parseFloat(B) || 0) }),
+  },
+  sum: {
+    id: "sum",
+    title: "Sum",
+    inputs: [
+      { name: "A", type: "number" },
+      { name: "B", type: "number" },
+    ],
+    outputs: [{ name: "Result", type: "number" }],
+    // The + button on the node adds C, D, ...
+    dynamicInputs: { type: "number" },
+    color: "#3f51b5",
+    category: "Math",
+    showOutputs: true,
+    compute: (inputs) => ({
+      Result: Object.values(inputs).reduce((sum: number, v) => sum + (parseFloat(v) || 0), 0),
+    }),
   },
   test: {
     id: "test",
@@ -37,8 +72,9 @@ const nodeTypes: Record<string, NodeTypeDef> = {
     inputs: [
       { name: "Boolean", type: "boolean" },
       { name: "Kolor", type: "color" },
-      { name: "Numer", type: "number" },
+      { name: "Numer", type: "number", default: 1, min: 0, max: 10, step: 0.5, unit: "px", description: "Liczba od 0 do 10" },
       { name: "Tekst", type: "string" },
+      { name: "Tryb", type: "enum", options: [{ value: "normal", label: "Normalny" }, { value: "multiply", label: "Mnożenie" }, "screen"], default: "normal" },
       { name: "Zdjęcie", type: "image" },
       { name: "Wektor (2)", type: "Vec2" },
       { name: "Wektor (3)", type: "Vec3" },
@@ -49,6 +85,20 @@ const nodeTypes: Record<string, NodeTypeDef> = {
   }
 };
 
+// Ports of different types that may still be connected
+const typeConversions: TypeConversion[] = [
+  { from: "number", to: "Vec2", convert: (n) => [n, n] },
+  { from: "number", to: "Vec3", convert: (n) => [n, n, n] },
+  // Colors are stored as 0..1 RGB triples already
+  { from: "color", to: "Vec3" },
+];
+
+// App rule on top of the built-in connection checks
+const validateConnection: ConnectionValidator = (candidate, graph) =>
+  graph.connections.filter((c) => c.from.nodeId === candidate.from.nodeId && c.from.port === candidate.from.port).length >= 4
+    ? "An output may feed at most four inputs"
+    : null;
+
 // 2. Initial Node Data
 const initialNodes: NodeData[] = [
   { id: "3", type: "add", x: 300, y: 120 },
@@ -58,8 +108,12 @@ const initialNodes: NodeData[] = [
 
 const initialConnections: Connection[] = [];
 
-const saveGraphToFile = (nodes: NodeData[], connections: Connection[], filename: string = 'graph.json') => {
-  const json = serializeGraph(nodes, connections);
+// Uploaded images live here; node data only refers to them
+const assets = createAssetStore();
+
+// Saved files bundle the images they use, so that they open anywhere
+const saveGraphToFile = async (nodes: NodeData[], connections: Connection[], filename: string = 'graph.json') => {
+  const json = await exportGraphBundle(nodes, connections, nodeTypes, assets);
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
@@ -92,7 +146,7 @@ export function App() {
     }
 
     const { nodes, connections } = nodeSystemRef.current.save();
-    saveGraphToFile(nodes, connections);
+    saveGraphToFile(nodes, connections).catch((error) => console.error("Failed to save graph:", error));
   }
 
 
@@ -103,11 +157,21 @@ export function App() {
     const file = input.files[0];
     const reader = new FileReader();
 
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const json = e.target?.result as string;
-        const state = deserializeGraph(json);
-        nodeSystemRef.current?.load(state);
+        await importGraphBundle(json, assets);
+        const { graph, problems } = deserializeGraph(json, nodeTypes, typeConversions);
+        const fatal = problems.find((p) => p.severity === "fatal");
+        if (fatal) {
+          alert(`Failed to load graph: ${fatal.message}`);
+          return;
+        }
+        if (problems.length > 0) {
+          console.warn("Repaired loaded graph:", problems);
+        }
+        // Files saved before the asset store kept their images inline
+        nodeSystemRef.current?.load({ ...graph, nodes: await internAssets(graph.nodes, nodeTypes, assets) });
       } catch (error) {
         console.error("Failed to load graph:", error);
         alert("Failed to load graph. Invalid JSON file.");
@@ -119,71 +183,16 @@ export function App() {
     input.value = '';
   };
 
-  /**
-   * Simple Graph Execution Engine
-   * This function is called by NodeSystem via returningCallback.
-   * It calculates values based on connections.
-   */
-  const processGraph = (state: { nodes: NodeData[], connections: Connection[] }) => {
-    const { nodes, connections } = state;
-
-    // 1. Create a map for quick access and to store calculated results
-    const nodeResults: Record<string, Record<string, any>> = {};
-    nodes.forEach(n => {
-      nodeResults[n.id] = { ...(n.data || {}) };
-    });
-
-    // 2. Simple iterative pass (improvement: topological sort)
-    // We run it a few times to propagate values through connections
-    for (let i = 0; i < 3; i++) {
-      nodes.forEach(node => {
-        const currentData = nodeResults[node.id];
-
-        // Resolve inputs from connections
-        connections.forEach(conn => {
-          if (conn.to.nodeId === node.id) {
-            const sourceNodeValues = nodeResults[conn.from.nodeId];
-            if (sourceNodeValues && sourceNodeValues[conn.from.port] !== undefined) {
-              currentData[conn.to.port] = sourceNodeValues[conn.from.port];
-            }
-          }
-        });
-
-        // Execute node logic
-        if (node.type === 'add') {
-          const a = parseFloat(currentData['A']) || 0;
-          const b = parseFloat(currentData['B']) || 0;
-          currentData['Result'] = a + b;
-        } else if (node.type === 'subtract') {
-          const a = parseFloat(currentData['A']) || 0;
-          const b = parseFloat(currentData['B']) || 0;
-          currentData['Result'] = a - b;
-        } else if (node.type === 'logic') {
-          const enabled = !!currentData['Enabled'];
-          const val = parseFloat(currentData['Value']) || 0;
-          currentData['Out'] = enabled ? val : 0;
-        }
-      });
-    }
-
-    // 3. Return updated nodes with calculated data
-    return {
-      nodes: nodes.map(n => ({
-        ...n,
-        data: nodeResults[n.id]
-      })),
-      connections
-    };
-  };
-
   return (
     <div style={{ width: "100vw", height: "100vh" }}>
       <NodeSystem
         nodeRef={nodeSystemRef}
         nodeTypes={nodeTypes}
+        typeConversions={typeConversions}
+        validateConnection={validateConnection}
         initialNodes={initialNodes}
         initialConnections={initialConnections}
-        returningCallback={processGraph}
+        assets={assets}
       />
       <div style={{ position: "absolute", top: 10, right: 10, zIndex: 100 }}>
         <button
@@ -1,10 +1,12 @@
 /** Node.tsx */
-import { h } from "preact";
+import { h, Fragment } from "preact";
 import { useRef, useEffect, useState, useCallback } from "preact/hooks";
 import type { FunctionalComponent } from "preact";
-import type { NodeData, NodeTypeDef, PortDef, Connection } from "./node";
+import type { NodeData, NodeTypeDef, NodeRunState, PortDef, PortDirection, Connection } from "./node";
 import { useNodeDrag } from "./hooks/useNodeDrag";
 import { OutputViewer } from "./OutputViewer";
+import { isExecPort } from "../../utils/ports";
+import type { AssetStore } from "../../utils/assets";
 import VariableEditor from "../VariableEditor/VariableEditor.tsx";
 import "./Node.css";
 
@@ -19,7 +21,16 @@ type Props = {
   onValueChange?: (id: string, portName: string, value: any) => void;
   onDragStart?: (id: string) => void;
   onDragEnd?: (id: string) => void;
+  onOpen?: (id: string) => void; // enter the subgraph of a group node
+  onAddPort?: (id: string, direction: PortDirection) => void;
+  onRemovePort?: (id: string, direction: PortDirection, portName: string) => void;
+  onMoveConnection?: (connection: Connection, index: number) => void; // reorder the links of a multi input
   connections?: Connection[];
+  nodeTitle?: (id: string) => string; // labels the links of multi inputs by their source node
+  runState?: NodeRunState;
+  remapTypes?: NodeTypeDef[]; // set when the node's type is not registered: types it can be replaced with
+  onRemapType?: (id: string, type: string) => void;
+  assets?: AssetStore; // passed to the value editors
 };
 
 export const Node: FunctionalComponent<Props> = ({
@@ -33,7 +44,16 @@ export const Node: FunctionalComponent<Props> = ({
   onValueChange,
   onDragStart,
   onDragEnd,
-  connections = []
+  onOpen,
+  onAddPort,
+  onRemovePort,
+  onMoveConnection,
+  connections = [],
+  nodeTitle = (id) => id,
+  runState,
+  remapTypes,
+  onRemapType,
+  assets
 }) => {
   const rootRef = useRef<HTMLDivElement | null>(null);
   const portContainerRef = useRef<HTMLDivElement | null>(null);
@@ -57,10 +77,23 @@ export const Node: FunctionalComponent<Props> = ({
     }
   }, [node.id, onPortPositionChange]);
 
+  // Links listed under multi inputs push the ports below them down
+  const multiLinkCount = connections.filter(
+    (c) => c.to.nodeId === node.id && typeDef.inputs.some((p) => p.multi && p.name === c.to.port)
+  ).length;
+
   useEffect(() => {
     const timeoutId = setTimeout(updatePortPositions, 0);
     return () => clearTimeout(timeoutId);
-  }, [node.x, node.y, node.id, typeDef.inputs, typeDef.outputs, updatePortPositions]);
+  }, [node.x, node.y, node.id, typeDef.inputs, typeDef.outputs, multiLinkCount, updatePortPositions]);
+
+  // Editors growing inside the node (e.g. expanded structs) move the ports below them
+  useEffect(() => {
+    if (!portContainerRef.current || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => updatePortPositions());
+    observer.observe(portContainerRef.current);
+    return () => observer.disconnect();
+  }, [updatePortPositions]);
 
   // Use custom hook for drag logic
   const { onPointerDown } = useNodeDrag({
@@ -82,6 +115,89 @@ export const Node: FunctionalComponent<Props> = ({
     );
   };
 
+  // Tooltip of a port dot: name, type and what the port is for
+  const portTitle = (p: PortDef): string => {
+    const signature = isExecPort(p) ? p.name : `${p.name} : ${p.type}${p.multi ? "[]" : ""}${p.unit ? ` (${p.unit})` : ""}`;
+    return p.description ? `${signature}\n${p.description}` : signature;
+  };
+
+  // Ports added to this node at runtime can be removed again
+  const isInstancePort = (direction: PortDirection, portName: string): boolean =>
+    !!(direction === "input" ? node.inputs : node.outputs)?.some((p) => p.name === portName);
+
+  const canAddPort = (direction: PortDirection): boolean => {
+    const dynamic = direction === "input" ? typeDef.dynamicInputs : typeDef.dynamicOutputs;
+    const added = (direction === "input" ? node.inputs : node.outputs)?.length ?? 0;
+    return !!onAddPort && !!dynamic && (dynamic.max === undefined || added < dynamic.max);
+  };
+
+  const renderRemovePort = (direction: PortDirection, portName: string) =>
+    onRemovePort && isInstancePort(direction, portName) && (
+      <button
+        className="node-port-remove"
+        title={`Remove ${portName}`}
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemovePort(node.id, direction, portName);
+        }}
+      >
+        ×
+      </button>
+    );
+
+  const renderAddPort = (direction: PortDirection) =>
+    canAddPort(direction) && (
+      <button
+        className="node-port-add"
+        title={direction === "input" ? "Add input" : "Add output"}
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          onAddPort!(node.id, direction);
+        }}
+      >
+        +
+      </button>
+    );
+
+  // Links of a multi input in the order their values are passed on, with
+  // controls to move them up or down
+  const renderMultiLinks = (p: PortDef) => {
+    const links = connections.filter((c) => c.to.nodeId === node.id && c.to.port === p.name);
+    if (!onMoveConnection || links.length < 2) return null;
+
+    return links.map((link, index) => (
+      <div className="node-port-row node-port-multi-link" key={`${p.name}-${link.from.nodeId}-${link.from.port}`}>
+        <div className="node-port-label" title={`Node ${link.from.nodeId}`}>
+          {index + 1}. {nodeTitle(link.from.nodeId)}.{link.from.port}
+        </div>
+        <button
+          disabled={index === 0}
+          title="Move up"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onMoveConnection(link, index - 1);
+          }}
+        >
+          ▲
+        </button>
+        <button
+          disabled={index === links.length - 1}
+          title="Move down"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onMoveConnection(link, index + 1);
+          }}
+        >
+          ▼
+        </button>
+      </div>
+    ));
+  };
+
   // Helper function to handle value changes
   const handleValueChange = (portName: string, value: any) => {
     if (onValueChange) {
@@ -108,14 +224,15 @@ export const Node: FunctionalComponent<Props> = ({
     transform: `translate(${node.x}px, ${node.y}px)`,
     minWidth: node.width ? `${node.width}px` : undefined,
     minHeight: node.height ? `${node.height}px` : undefined,
-    borderColor: typeDef.color ?? undefined,
+    // Leave the border to the error outline when evaluation failed
+    borderColor: runState?.status === "error" ? undefined : typeDef.color ?? undefined,
     '--node-border-color': typeDef.color ?? '#333',
   };
 
   return (
     <>
       <div
-        className={`node-node ${node.selected ? "selected" : ""}`}
+        className={`node-node ${node.selected ? "selected" : ""} ${runState?.status === "error" ? "error" : ""} ${remapTypes ? "node-node-missing" : ""}`}
         ref={rootRef}
         style={style}
         data-id={node.id}
@@ -124,55 +241,116 @@ export const Node: FunctionalComponent<Props> = ({
         role="group"
         aria-label={typeDef.title ?? typeDef.id}
       >
-        <div className="node-node-header" title={typeDef.id}>
+        <div
+          className="node-node-header"
+          title={runState?.status === "error" ? runState.error : remapTypes ? `Node type "${typeDef.id}" is not registered` : typeDef.id}
+        >
           <div className="node-node-title">{typeDef.title ?? typeDef.id}</div>
           {typeDef.category && <div className="node-node-category">{typeDef.category}</div>}
+          {runState?.status === "pending" && <div className="node-node-spinner" aria-label="Evaluating" />}
+          {runState?.status === "error" && <div className="node-node-badge node-node-badge-error">!</div>}
+          {runState?.iterations !== undefined && (
+            <div className="node-node-badge node-node-badge-count" title={`${runState.iterations} iterations`}>
+              ×{runState.iterations}
+            </div>
+          )}
+          {runState?.lastError && runState.status !== "error" && (
+            <div className="node-node-badge node-node-badge-warning" title={runState.lastError}>!</div>
+          )}
+          {node.subgraph && onOpen && (
+            <button
+              className="node-node-open"
+              title={node.subgraph.iterate ? "Open loop body" : "Open group"}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen(node.id);
+              }}
+            >
+              ⤢
+            </button>
+          )}
         </div>
 
+        {remapTypes && onRemapType && (
+          <div className="node-node-remap">
+            <span className="node-node-remap-label">⚠ missing type</span>
+            <select
+              className="node-node-remap-select"
+              value=""
+              onPointerDown={(e) => e.stopPropagation()}
+              onChange={(e) => {
+                const type = (e.target as HTMLSelectElement).value;
+                if (type) onRemapType(node.id, type);
+              }}
+            >
+              <option value="">Replace with…</option>
+              {remapTypes.map((t) => (
+                <option key={t.id} value={t.id}>{t.title ?? t.id}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="node-node-body" ref={portContainerRef}>
           <div className="node-node-ports node-node-inputs">
             {typeDef.inputs.map((p, idx) => {
+              if (p.hidden) return null;
               const connected = isInputConnected(p.name);
               const portValue = node.data?.[p.name];
+              const exec = isExecPort(p);
+              const missing = !!p.required && !connected && (portValue ?? p.default) === undefined;
               return (
-                <div className="node-port-row" key={`in-${idx}-${p.name}`}>
-                  <div
-                    className="node-port-dot node-port-input"
-                    data-port-name={p.name}
-                    data-port-type={p.type}
-                    onPointerDown={(e) => {
-                      e.stopPropagation();
-                      onPortPointerDown(node.id, p, "input", e.clientX, e.clientY);
-                    }}
-                    onPointerUp={(e) => {
-                      e.stopPropagation();
-                      onPortPointerUp(node.id, p, "input");
-                    }}
-                    title={`${p.name} : ${p.type}`}
-                  />
-                  <div className="node-port-label">{p.name}</div>
-                  <div className={`node-port-value-container ${connected ? 'connected' : ''}`}>
-                    <VariableEditor
-                      type={p.type}
-                      value={portValue}
-                      onChange={(value) => handleValueChange(p.name, value)}
-                      disabled={connected}
+                <Fragment key={`in-${idx}-${p.name}`}>
+                  <div className="node-port-row">
+                    <div
+                      className={`node-port-dot node-port-input ${exec ? "node-port-exec" : ""} ${p.multi ? "node-port-multi" : ""} ${missing ? "node-port-missing" : ""}`}
+                      data-port-name={p.name}
+                      data-port-type={p.type}
+                      onPointerDown={(e) => {
+                        e.stopPropagation();
+                        onPortPointerDown(node.id, p, "input", e.clientX, e.clientY);
+                      }}
+                      onPointerUp={(e) => {
+                        e.stopPropagation();
+                        onPortPointerUp(node.id, p, "input");
+                      }}
+                      title={portTitle(p)}
                     />
+                    <div className="node-port-label">{p.name}{p.required && <span className="node-port-required">*</span>}</div>
+                    {renderRemovePort("input", p.name)}
+                    {!exec && !p.multi && (
+                      <div className={`node-port-value-container ${connected ? 'connected' : ''}`}>
+                        <VariableEditor
+                          type={p.type}
+                          value={portValue}
+                          onChange={(value) => handleValueChange(p.name, value)}
+                          disabled={connected}
+                          port={p}
+                          assets={assets}
+                        />
+                      </div>
+                    )}
                   </div>
-                </div>
+                  {p.multi && renderMultiLinks(p)}
+                </Fragment>
               );
             })}
+            {renderAddPort("input")}
           </div>
 
           <div className="node-node-spacer" />
 
           <div className="node-node-ports node-node-outputs">
             {typeDef.outputs.map((p, idx) => {
+              if (p.hidden) return null;
               const portValue = node.data?.[p.name];
+              const exec = isExecPort(p);
               return (
                 <div className="node-port-row" key={`out-${idx}-${p.name}`}>
+                  {renderRemovePort("output", p.name)}
                   <div className="node-port-label">{p.name}</div>
-                  {typeDef.showOutputs && (
+                  {typeDef.showOutputs && !exec && (
                     <div
                       className="node-output-clickable"
                       onClick={(e) => {
@@ -194,11 +372,12 @@ export const Node: FunctionalComponent<Props> = ({
                         value={portValue}
                         onChange={(value) => handleValueChange(p.name, value)}
                         disabled={true}
+                        port={p}
                       />
                     </div>
                   )}
                   <div
-                    className="node-port-dot node-port-output"
+                    className={`node-port-dot node-port-output ${exec ? "node-port-exec" : ""}`}
                     data-port-name={p.name}
                     data-port-type={p.type}
                     onPointerDown={(e) => {
@@ -207,6 +386,7 @@ export const Node: FunctionalComponent<Props> = ({
                     }}
                     onDblClick={(e) => {
                       e.stopPropagation();
+                      if (exec) return;
                       const rect = (e.currentTarget as Element).getBoundingClientRect();
                       openViewer(portValue, p.type, { x: rect.left, y: rect.bottom + 6 });
                     }}
@@ -214,11 +394,12 @@ export const Node: FunctionalComponent<Props> = ({
                       e.stopPropagation();
                       onPortPointerUp(node.id, p, "output");
                     }}
-                    title={`${p.name} : ${p.type}`}
+                    title={portTitle(p)}
                   />
                 </div>
               );
             })}
+            {renderAddPort("output")}
           </div>
         </div>
       </div>
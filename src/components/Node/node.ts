@@ -1,12 +1,133 @@
 // Node.ts
 export type PortDirection = "input" | "output";
 
+/**
+ * "data" ports carry values, "exec" ports carry control flow between nodes
+ * that run imperatively (see runExecution).
+ */
+export type PortKind = "data" | "exec";
+
 /**
  * Basic port definition used by engine and UI.
  */
 export interface PortDef {
   name: string;
-  type: string; // logical type name e.g. "Int", "Object", "Vec3"
+  type: string; // logical type name e.g. "Int", "Object", "Vec3"; ignored for exec ports
+  kind?: PortKind; // defaults to "data"
+  multi?: boolean; // input taking any number of connections; compute receives their values as an ordered array
+  default?: any; // value of new nodes and of unconnected inputs without a stored value
+  min?: number; // bounds and increment enforced by the number and vector editors
+  max?: number;
+  step?: number;
+  unit?: string; // shown next to the value, e.g. "px" or "°"
+  description?: string; // shown in the port's tooltip
+  required?: boolean; // the node fails to compute while this input has no value
+  hidden?: boolean; // not drawn on the node; its value can still be stored and computed with
+  options?: (string | EnumOption)[]; // makes the port an enum: only these values are accepted, picked from a dropdown
+  fields?: PortDef[]; // struct port: its values are objects with these fields, edited field by field (see `structPort`)
+}
+
+/**
+ * One value of an enum port, with the text shown for it.
+ */
+export interface EnumOption {
+  value: string;
+  label?: string; // defaults to the value
+}
+
+/**
+ * Extra information passed to compute functions.
+ */
+export interface ComputeContext {
+  signal: AbortSignal; // aborted when the inputs change before an async run settles
+  variables?: Record<string, any>; // shared state of the running execution flow, if any
+  report?: (details: NodeRunDetails) => void; // extra details shown on the node, e.g. by map nodes
+}
+
+/**
+ * Computes output values of a node from its resolved input values.
+ * Returned keys should match the names of the node's output ports.
+ * May return a Promise for asynchronous work.
+ */
+export type ComputeFn = (
+  inputs: Record<string, any>,
+  node: NodeData,
+  context: ComputeContext
+) => Record<string, any> | Promise<Record<string, any>>;
+
+/**
+ * Extra information passed to execute functions.
+ */
+export interface ExecutionContext extends ComputeContext {
+  variables: Record<string, any>;
+  trigger?: string; // exec input that fired; undefined for entry nodes
+}
+
+/**
+ * What an execute function hands back to the runner. `next` lists the exec
+ * outputs to continue with, in order; when omitted, every exec output fires.
+ * `null` stops the flow at this node.
+ */
+export interface ExecuteResult {
+  outputs?: Record<string, any>;
+  next?: string | string[] | null;
+}
+
+/**
+ * Runs a node when one of its exec inputs fires. Data inputs are pulled from
+ * upstream nodes right before the call.
+ */
+export type ExecuteFn = (
+  inputs: Record<string, any>,
+  node: NodeData,
+  context: ExecutionContext
+) => ExecuteResult | void | Promise<ExecuteResult | void>;
+
+/**
+ * Evaluation status of a single node.
+ */
+export type NodeStatus = "idle" | "pending" | "done" | "error";
+
+/**
+ * Extra information a compute function can report about its run.
+ */
+export interface NodeRunDetails {
+  iterations?: number; // iterations run by a map node
+  lastError?: string; // last failure that did not fail the whole node
+  inner?: InnerRunDetails; // inner nodes of a group node (of its first item, for map nodes)
+}
+
+/**
+ * Values and states of the inner nodes of a group node from its last run,
+ * keyed by inner node id. Shown while the group is open in the editor.
+ */
+export interface InnerRunDetails {
+  results: Record<string, Record<string, any>>;
+  states: Record<string, NodeRunState>;
+}
+
+export interface NodeRunState extends NodeRunDetails {
+  status: NodeStatus;
+  error?: string;
+}
+
+/**
+ * Ports users may add to a node at runtime, e.g. the operands of a "Sum" node.
+ */
+export interface DynamicPortsDef {
+  type: string; // type of the added ports
+  max?: number; // most ports that can be added (default unlimited)
+  name?: (index: number) => string; // names tried in turn until one is free (default A, B, C...)
+}
+
+/**
+ * Brings a node saved with an older version of its type up by one version.
+ * Stored values and connections follow renamed ports; `data` then rewrites the
+ * stored values (already under their new names).
+ */
+export interface NodeUpgrade {
+  renamePorts?: Record<string, string>; // old port name -> new one
+  data?: (data: Record<string, any>, node: NodeData) => Record<string, any>;
 }
 
 /**
@@ -20,6 +141,16 @@ export interface NodeTypeDef {
   outputs: PortDef[];
   color?: string; // optional theme color for the node
   showOutputs?: boolean; // whether to display output values inline on the node
+  compute?: ComputeFn; // evaluated by the built-in graph engine
+  feedback?: boolean; // delay node allowed to close a loop; consumers read its previous values
+  memoize?: boolean; // set to false for impure nodes (random, time, I/O) to skip the result cache
+  execute?: ExecuteFn; // run by runExecution when an exec input fires
+  subgraph?: Subgraph; // template copied into every new node of this type (group or map node)
+  typeParams?: string[]; // type variables, e.g. ["T"]; ports typed "T" take the type of their first connection
+  dynamicInputs?: DynamicPortsDef; // lets users add inputs to each node of this type
+  dynamicOutputs?: DynamicPortsDef; // lets users add outputs to each node of this type
+  version?: number; // bump when the ports change; nodes saved with older versions are upgraded on load (default 1)
+  upgrades?: Record<number, NodeUpgrade>; // upgrades[n] turns a node of version n into version n + 1
 }
 
 /**
@@ -34,6 +165,47 @@ export interface NodeData {
   height?: number;
   data?: Record<string, any>;
   selected?: boolean;
+  subgraph?: Subgraph; // makes this a group node whose ports are derived from the subgraph
+  typeArgs?: Record<string, string>; // bound type variables of a generic node, inferred from its connections
+  inputs?: PortDef[]; // ports added to this node at runtime, after the type's own
+  outputs?: PortDef[];
+  version?: number; // version of its type the node was made with; missing means the current one (in saved files: 1)
+}
+
+/**
+ * A port of a node inside a subgraph.
+ */
+export interface PortRef {
+  nodeId: string;
+  port: string;
+}
+
+/**
+ * Group input: its value feeds the bound inner input ports.
+ */
+export interface SubgraphInput extends PortDef {
+  targets: PortRef[];
+}
+
+/**
+ * Group output: exposes the value of an inner output port.
+ */
+export interface SubgraphOutput extends PortDef {
+  source: PortRef;
+}
+
+/**
+ * Inner graph of a group node. Inner node positions are relative to the group.
+ * With `iterate` set, the node is a map node: the inner graph is its body,
+ * evaluated once per element of the "Items" input (see createMapNodeType).
+ */
+export interface Subgraph {
+  title?: string;
+  iterate?: boolean;
+  nodes: NodeData[];
+  connections: Connection[];
+  inputs: SubgraphInput[];
+  outputs: SubgraphOutput[];
 }
 
 export type Connection = {
@@ -1,10 +1,14 @@
 import { h } from "preact";
 import type { FunctionalComponent } from "preact";
-import type { Connection, NodeData } from "../Node/node";
+import type { Connection, NodeData, NodeTypeDef } from "../Node/node";
+import { isExecConnection } from "../../utils/ports";
+import { getConnectionConversion, type TypeConversion } from "../../utils/conversions";
 
 type EdgeRendererProps = {
     edges: Connection[];
     nodes: NodeData[];
+    nodeTypes?: Record<string, NodeTypeDef>;
+    typeConversions?: TypeConversion[];
     portPositions: { [key: string]: { x: number; y: number } };
     onDeleteConnection?: (connection: Connection) => void;
 };
@@ -12,14 +16,18 @@ type EdgeRendererProps = {
 export const EdgeRenderer: FunctionalComponent<EdgeRendererProps> = ({
     edges,
     nodes,
+    nodeTypes = {},
+    typeConversions = [],
     portPositions,
     onDeleteConnection,
 }) => {
+    const nodesById = new Map(nodes.map((n) => [n.id, n]));
+
     return (
         <>
             {edges.map((edge, idx) => {
-                const fromNode = nodes.find((n) => n.id === edge.from.nodeId);
-                const toNode = nodes.find((n) => n.id === edge.to.nodeId);
+                const fromNode = nodesById.get(edge.from.nodeId);
+                const toNode = nodesById.get(edge.to.nodeId);
 
                 const fromPortKey = `${edge.from.nodeId}-${edge.from.port}`;
                 const toPortKey = `${edge.to.nodeId}-${edge.to.port}`;
@@ -35,6 +43,9 @@ export const EdgeRenderer: FunctionalComponent<EdgeRendererProps> = ({
                 const dx = Math.abs(toPos.x - fromPos.x);
                 const offset = Math.min(dx * 0.5, 100);
 
+                const exec = isExecConnection(edge, nodesById, nodeTypes);
+                // Edges converting values between port types are dashed
+                const conversion = getConnectionConversion(edge, nodesById, nodeTypes, typeConversions);
                 const path = `M ${fromPos.x} ${fromPos.y} C ${fromPos.x + offset} ${fromPos.y}, ${toPos.x - offset} ${toPos.y}, ${toPos.x} ${toPos.y}`;
 
                 const handlePointerDown = (e: PointerEvent) => {
@@ -56,6 +67,7 @@ export const EdgeRenderer: FunctionalComponent<EdgeRendererProps> = ({
 
                 return (
                     <g key={idx}>
+                        {conversion && <title>{`${conversion.from} → ${conversion.to}`}</title>}
                         {/* Hit area for easier selection/interaction */}
                         <path
                             d={path}
@@ -69,8 +81,9 @@ export const EdgeRenderer: FunctionalComponent<EdgeRendererProps> = ({
                         {/* Visual path */}
                         <path
                             d={path}
-                            stroke="#888"
-                            strokeWidth={2}
+                            stroke={exec ? "#f5f5f5" : conversion ? "#c5a3ff" : "#888"}
+                            strokeWidth={exec ? 3 : 2}
+                            strokeDasharray={conversion ? "6,4" : undefined}
                             fill="none"
                             pointerEvents="none"
                         />
@@ -1,5 +1,5 @@
 import { h } from "preact";
-import { useRef, useState, useEffect } from "preact/hooks";
+import { useRef, useState, useEffect, useMemo } from "preact/hooks";
 import type { FunctionalComponent } from "preact";
 import Node from "../Node/Node.tsx";
 import BlockMenu from "../BlockMenu/BlockMenu.tsx";
@@ -8,15 +8,23 @@ import { usePanning } from "./hooks/usePanning";
 import { useSelectionBox } from "./hooks/useSelectionBox";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
 import { useConnectionDrag } from "./hooks/useConnectionDrag";
-import type { Connection, NodeData, NodeTypeDef, PortDef } from "../Node/node.ts";
+import type { Connection, NodeData, NodeRunState, NodeTypeDef, PortDef, PortDirection } from "../Node/node.ts";
 import "./NodePlatform.css";
 
 import { distancePointToSegment, distance } from "../../utils/geometry"; // Import geometry utils
+import { getNodeTypeDef, getPlaceholderTypeDef } from "../../utils/nodeTypes";
+import type { TypeConversion } from "../../utils/conversions";
+import type { ConnectionValidator } from "../../utils/validation";
+import type { AssetStore } from "../../utils/assets";
 
 type Props = {
   nodes: NodeData[];
   nodeTypes: Record<string, NodeTypeDef>;
+  typeConversions?: TypeConversion[]; // lets ports of different types connect
+  validateConnection?: ConnectionValidator; // app rules checked after the built-in ones; the reason is shown as a warning
+  warning?: { message: string }; // shown in the warning banner whenever a new object is passed
   edges?: Connection[];
+  nodeStates?: Record<string, NodeRunState>;
   onNodeMove?: (id: string, x: number, y: number) => void;
   onNodeSelect?: (id: string | string[] | null, evt?: PointerEvent) => void;
   onNodeDelete?: (id: string | string[]) => void;
@@ -29,12 +37,26 @@ type Props = {
   onNodeDragEnd?: (id: string) => void;
   onDeleteConnection?: (connection: Connection) => void;
   onSpliceNode?: (nodeId: string, connectionToRemove: Connection, inputPort: string, outputPort: string) => void;
+  onGroupNodes?: (ids: string[]) => string | null; // returns why the nodes cannot be grouped
+  onUngroupNode?: (id: string) => void;
+  onOpenGroup?: (id: string) => void;
+  groupPath?: { id: string; title: string }[]; // groups being edited, outermost first
+  onExitGroup?: (depth: number) => void; // leave to the given depth of groupPath (0 = top level)
+  onAddPort?: (nodeId: string, direction: PortDirection) => void;
+  onRemovePort?: (nodeId: string, direction: PortDirection, portName: string) => void;
+  onMoveConnection?: (connection: Connection, index: number) => void; // reorder the links of a multi input
+  onRemapNodeType?: (nodeId: string, type: string) => void; // replace the unregistered type of a placeholder node
+  assets?: AssetStore; // where the image editors store uploads
 };
 
 export const NodePlatform: FunctionalComponent<Props> = ({
   nodes,
   nodeTypes,
+  typeConversions,
+  validateConnection,
+  warning,
   edges = [],
+  nodeStates,
   onNodeMove,
   onNodeSelect,
   onNodeDelete,
@@ -47,6 +69,16 @@ export const NodePlatform: FunctionalComponent<Props> = ({
   onNodeDragStart,
   onNodeDragEnd,
   onSpliceNode,
+  onGroupNodes,
+  onUngroupNode,
+  onOpenGroup,
+  groupPath = [],
+  onExitGroup,
+  onAddPort,
+  onRemovePort,
+  onMoveConnection,
+  onRemapNodeType,
+  assets,
 }) => {
   const platformRef = useRef<HTMLDivElement | null>(null);
   const clipboardRef = useRef<NodeData[]>([]);
@@ -56,6 +88,14 @@ export const NodePlatform: FunctionalComponent<Props> = ({
   const [blockMenuPosition, setBlockMenuPosition] = useState({ x: 0, y: 0 });
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
+  // Nodes of unregistered types are drawn as placeholders
+  const typeDefOf = (n: NodeData) => getNodeTypeDef(n, nodeTypes) ?? getPlaceholderTypeDef(n, edges);
+  const remapTypes = useMemo(() => Object.values(nodeTypes), [nodeTypes]);
+  const nodeTitle = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    return node ? typeDefOf(node).title ?? node.type : id;
+  };
+
   // Custom hooks
   const { offset, scale, setOffset, handleWheel, handleMiddleMousePan } = usePanning();
   const { selectionBox, handleSelectionStart } = useSelectionBox();
@@ -71,6 +111,8 @@ export const NodePlatform: FunctionalComponent<Props> = ({
     nodes,
     edges,
     nodeTypes,
+    typeConversions,
+    validateConnection,
     portPositions,
     offset,
     scale,
@@ -90,8 +132,7 @@ export const NodePlatform: FunctionalComponent<Props> = ({
     const node = nodes.find(n => n.id === nodeId);
     if (!node) return;
 
-    const nodeType = nodeTypes[node.type];
-    if (!nodeType) return;
+    const nodeType = typeDefOf(node);
 
 
 
@@ -215,8 +256,14 @@ export const NodePlatform: FunctionalComponent<Props> = ({
     onNodeSelect: onNodeSelect as ((id: string | string[] | null) => void) | undefined,
     onNodeMove,
     onPasteNodes,
+    onGroupNodes: onGroupNodes && ((ids) => setWarningMessage(onGroupNodes(ids))),
+    onUngroupNode,
   });
 
+  useEffect(() => {
+    if (warning) setWarningMessage(warning.message);
+  }, [warning]);
+
   // Warning message auto-hide
   useEffect(() => {
     if (warningMessage) {
@@ -265,6 +312,22 @@ export const NodePlatform: FunctionalComponent<Props> = ({
     }
   };
 
+  // Forget the positions of ports that are gone (removed ports, deleted nodes)
+  useEffect(() => {
+    const live = new Set<string>();
+    nodes.forEach((n) => {
+      const typeDef = typeDefOf(n);
+      typeDef.inputs.concat(typeDef.outputs).forEach((p) => live.add(`${n.id}-${p.name}`));
+    });
+    setPortPositions(prev => {
+      const stale = Object.keys(prev).filter((key) => !live.has(key));
+      if (stale.length === 0) return prev;
+      const next = { ...prev };
+      stale.forEach((key) => delete next[key]);
+      return next;
+    });
+  }, [nodes, nodeTypes, edges]);
+
   const onPointerDown = (e: PointerEvent) => {
     // Handle middle mouse button for panning
     if (handleMiddleMousePan(e)) return;
@@ -335,6 +398,8 @@ export const NodePlatform: FunctionalComponent<Props> = ({
         <EdgeRenderer
           edges={edges}
           nodes={nodes}
+          nodeTypes={nodeTypes}
+          typeConversions={typeConversions}
           portPositions={portPositions}
           onDeleteConnection={onDeleteConnection}
         />
@@ -377,7 +442,11 @@ export const NodePlatform: FunctionalComponent<Props> = ({
           <Node
             key={n.id}
             node={n}
-            typeDef={nodeTypes[n.type]}
+            typeDef={typeDefOf(n)}
+            remapTypes={getNodeTypeDef(n, nodeTypes) ? undefined : remapTypes}
+            onRemapType={onRemapNodeType}
+            assets={assets}
+            runState={nodeStates?.[n.id]}
             onMove={(id, x, y) => {
               if (onNodeMove) {
                 const node = nodes.find(n => n.id === id);
@@ -409,11 +478,33 @@ export const NodePlatform: FunctionalComponent<Props> = ({
             onValueChange={onNodeValueChange}
             onDragStart={onNodeDragStart}
             onDragEnd={handleNodeDragEndWrapper}
+            onOpen={onOpenGroup}
+            onAddPort={onAddPort}
+            onRemovePort={onRemovePort}
+            onMoveConnection={onMoveConnection}
             connections={edges}
+            nodeTitle={nodeTitle}
           />
         ))}
       </div>
 
+      {groupPath.length > 0 && (
+        <div className="node-node-platform-breadcrumbs" onPointerDown={(e) => e.stopPropagation()}>
+          <button onClick={() => onExitGroup?.(0)}>Graph</button>
+          {groupPath.map((group, idx) => (
+            <span key={group.id}>
+              <span className="node-node-platform-breadcrumbs-separator">›</span>
+              <button
+                onClick={() => onExitGroup?.(idx + 1)}
+                disabled={idx === groupPath.length - 1}
+              >
+                {group.title}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       {warningMessage && (
         <div className="node-node-platform-warning">
           {warningMessage}
@@ -1,6 +1,9 @@
 import { useState, useCallback } from "preact/hooks";
 import type { RefObject } from "preact";
 import type { Connection, NodeData, NodeTypeDef, PortDef } from "../../Node/node";
+import { validateConnection, type ConnectionValidator } from "../../../utils/validation";
+import { isExecPort } from "../../../utils/ports";
+import type { TypeConversion } from "../../../utils/conversions";
 
 export interface ConnectionEndpoint {
     nodeId: string;
@@ -22,6 +25,8 @@ export interface UseConnectionDragConfig {
     nodes: NodeData[];
     edges: Connection[];
     nodeTypes: Record<string, NodeTypeDef>;
+    typeConversions?: TypeConversion[];
+    validateConnection?: ConnectionValidator;
     portPositions: { [key: string]: { x: number; y: number } };
     offset: { x: number; y: number };
     scale: number;
@@ -56,6 +61,8 @@ export function useConnectionDrag(config: UseConnectionDragConfig): UseConnectio
         nodes,
         edges,
         nodeTypes,
+        typeConversions,
+        validateConnection: validator,
         portPositions,
         offset,
         scale,
@@ -82,7 +89,8 @@ export function useConnectionDrag(config: UseConnectionDragConfig): UseConnectio
 
         if (pos && platformRef.current) {
             // Check if this is an input port that is already connected
-            if (direction === "input") {
+            // (exec and multi inputs accept several links, so they start a new one)
+            if (direction === "input" && !isExecPort(port) && !port.multi) {
                 const existingConnection = edges.find(
                     e => e.to.nodeId === nodeId && e.to.port === port.name
                 );
@@ -140,52 +148,21 @@ export function useConnectionDrag(config: UseConnectionDragConfig): UseConnectio
             return;
         }
 
-        const fromNode = nodes.find(n => n.id === fromNodeId);
-        const toNode = nodes.find(n => n.id === toNodeId);
-        const fromNodeType = fromNode ? nodeTypes[fromNode.type] : undefined;
-        const toNodeType = toNode ? nodeTypes[toNode.type] : undefined;
-
-        const fromPortDef = fromNodeType?.outputs.find(p => p.name === fromPortName);
-        const toPortDef = toNodeType?.inputs.find(p => p.name === toPortName);
-
-        // Validation
-        if (fromNodeId === toNodeId) {
-            setWarningMessage("Cannot connect a node to itself");
-        } else if (!fromNodeType || !toNodeType) {
-            setWarningMessage("Invalid node types");
-        } else if (!fromPortDef || !toPortDef) {
-            setWarningMessage("Port not found in node definition");
-        } else if (fromPortDef.type !== toPortDef.type) {
-            setWarningMessage(`Cannot connect ports of different types: ${fromPortDef.type} and ${toPortDef.type}`);
-        } else {
-            const isDuplicate = edges.some(
-                e => e.from.nodeId === fromNodeId &&
-                    e.from.port === fromPortName &&
-                    e.to.nodeId === toNodeId &&
-                    e.to.port === toPortName
-            );
-
-            if (isDuplicate) {
-                setWarningMessage("This connection already exists");
-            } else {
-                const inputAlreadyConnected = edges.some(
-                    e => e.to.nodeId === toNodeId && e.to.port === toPortName
-                );
+        const candidate: Connection = {
+            from: { nodeId: fromNodeId, port: fromPortName },
+            to: { nodeId: toNodeId, port: toPortName },
+        };
 
-                if (inputAlreadyConnected) {
-                    setWarningMessage(`Input port "${toPortName}" is already connected`);
-                } else {
-                    onCompleteConnection({
-                        from: { nodeId: fromNodeId, port: fromPortName },
-                        to: { nodeId: toNodeId, port: toPortName },
-                    });
-                }
-            }
+        const reason = validateConnection(candidate, { nodes, connections: edges }, nodeTypes, typeConversions, validator);
+        if (reason) {
+            setWarningMessage(reason);
+        } else {
+            onCompleteConnection(candidate);
         }
 
         setNewConnection(null);
         setConnectionPreview(null);
-    }, [newConnection, nodes, nodeTypes, edges, onCompleteConnection, setWarningMessage]);
+    }, [newConnection, nodes, nodeTypes, typeConversions, validator, edges, onCompleteConnection, setWarningMessage]);
 
     const handlePointerMove = useCallback((e: PointerEvent) => {
         if (connectionPreview && newConnection && platformRef.current) {
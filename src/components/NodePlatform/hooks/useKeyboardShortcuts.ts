@@ -15,6 +15,8 @@ export interface KeyboardShortcutsConfig {
     onNodeSelect?: (id: string | string[] | null) => void;
     onNodeMove?: (id: string, x: number, y: number) => void;
     onPasteNodes?: (nodes: NodeData[]) => void;
+    onGroupNodes?: (ids: string[]) => void;
+    onUngroupNode?: (id: string) => void;
 }
 
 export function useKeyboardShortcuts(config: KeyboardShortcutsConfig): void {
@@ -31,6 +33,8 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig): void {
         onNodeSelect,
         onNodeMove,
         onPasteNodes,
+        onGroupNodes,
+        onUngroupNode,
     } = config;
 
     useEffect(() => {
@@ -105,6 +109,17 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig): void {
 
                     onPasteNodes(newNodes);
                 }
+            } else if (isCtrlOrCmd && (e.key === "g" || e.key === "G")) {
+                // Group selected nodes, or ungroup selected groups with Shift
+                const selectedNodes = nodes.filter(n => n.selected);
+                if (selectedNodes.length === 0) return;
+                e.preventDefault();
+
+                if (e.shiftKey) {
+                    selectedNodes.filter(n => n.subgraph && !n.subgraph.iterate).forEach(n => onUngroupNode?.(n.id));
+                } else {
+                    onGroupNodes?.(selectedNodes.map(n => n.id));
+                }
             } else if (e.key === "ArrowUp" || e.key === "ArrowDown" || e.key === "ArrowLeft" || e.key === "ArrowRight") {
                 const selectedNodes = nodes.filter(n => n.selected);
                 if (selectedNodes.length > 0 && onNodeMove) {
@@ -137,5 +152,5 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig): void {
         return () => {
             window.removeEventListener("keydown", handleKeyDown);
         };
-    }, [blockMenuOpen, nodes, onNodeDelete, onPasteNodes, onNodeMove, mousePosition, offset, scale]);
+    }, [blockMenuOpen, nodes, onNodeDelete, onPasteNodes, onNodeMove, onGroupNodes, onUngroupNode, mousePosition, offset, scale]);
 }
@@ -1,17 +1,31 @@
 import { h, Fragment } from "preact";
-import { useCallback, useEffect, useRef, useMemo } from "preact/hooks";
+import { useCallback, useEffect, useRef, useMemo, useState } from "preact/hooks";
 import type { FunctionalComponent, Ref, RefObject } from "preact";
 import { NodePlatform } from "../NodePlatform/NodePlatform.tsx";
-import { useHistory } from "../../hooks/useHistory.ts";
-import type { Connection, NodeData, NodeTypeDef } from "../Node/node.ts";
+import { useGraph } from "../../hooks/useGraph.ts";
+import { useShallowStable } from "../../hooks/useShallowStable.ts";
+import { Graph } from "../../utils/graph.ts";
+import { GraphEvaluator, NodeError, applyResults, collectNodeErrors, type GraphNodeStates, type NodeErrorInfo } from "../../utils/evaluate.ts";
+import { WorkerGraphEvaluator } from "../../utils/worker.ts";
+import type { TypeConversion } from "../../utils/conversions.ts";
+import type { ConnectionValidator } from "../../utils/validation.ts";
+import { collectAssetRefs, resolveAssets, type AssetStore } from "../../utils/assets.ts";
+import type { Connection, NodeData, NodeTypeDef, PortDirection } from "../Node/node.ts";
 
 export type NodeSystemProps = {
     nodeTypes: Record<string, NodeTypeDef>;
+    typeConversions?: TypeConversion[]; // Which port types may connect and how values are converted
+    validateConnection?: ConnectionValidator; // App rules run after the built-in checks, also on load
     initialNodes?: NodeData[];
     initialConnections?: Connection[];
     onChange?: (nodes: NodeData[], connections: Connection[]) => void;
     storageKey?: string; // Optional key for local storage persistence or similar
     disableHistory?: boolean;
+    disableEvaluation?: boolean; // Skip the built-in engine driven by NodeTypeDef.compute
+    evaluationWorker?: Worker; // Evaluate off the main thread in a worker running registerEvaluationWorker
+    evaluationCacheSize?: number; // Results memoized per node by the engine (default 8, 0 disables)
+    assets?: AssetStore; // Where uploaded images are stored, node data then keeps references (default: inline data URLs)
+    graph?: Graph; // External graph model to render; initialNodes/initialConnections are ignored then
     nodeRef?: RefObject<NodeSystemHandle> | ((handle: NodeSystemHandle | null) => void);
     returningCallback?: (data: { nodes: NodeData[], connections: Connection[] }) => { nodes: NodeData[], connections: Connection[] };
 };
@@ -24,6 +38,8 @@ export type NodeSystemHandle = {
     save: () => { nodes: NodeData[], connections: Connection[] };
     load: (data: { nodes: NodeData[], connections: Connection[] }) => void;
     getProcessedState: () => { nodes: NodeData[], connections: Connection[] };
+    getNodeErrors: () => NodeErrorInfo[];
+    getGraph: () => Graph;
     undo: () => void;
     redo: () => void;
     canUndo: boolean;
@@ -35,72 +51,256 @@ type AppState = {
     connections: Connection[];
 };
 
+// Stable default so that graphs and the evaluator are not reset every render
+const NO_CONVERSIONS: TypeConversion[] = [];
+
+/**
+ * The data values the returning callback set or changed, per node.
+ */
+function collectCallbackOutput(input: NodeData[], output: NodeData[]): Map<string, Record<string, any>> {
+    const inputById = new Map(input.map(n => [n.id, n]));
+    const changes = new Map<string, Record<string, any>>();
+    output.forEach(n => {
+        const before = inputById.get(n.id)?.data ?? {};
+        const changed: Record<string, any> = {};
+        const after = n.data ?? {};
+        Object.keys(after).forEach(key => {
+            if (after[key] !== before[key]) changed[key] = after[key];
+        });
+        if (Object.keys(changed).length > 0) changes.set(n.id, changed);
+    });
+    return changes;
+}
+
+function reapplyCallbackOutput(nodes: NodeData[], changes: Map<string, Record<string, any>>): NodeData[] {
+    if (changes.size === 0) return nodes;
+    return nodes.map(n => {
+        const changed = changes.get(n.id);
+        return changed ? { ...n, data: { ...n.data, ...changed } } : n;
+    });
+}
+
 export const NodeSystem: FunctionalComponent<NodeSystemProps> = ({
-    nodeTypes,
+    nodeTypes: nodeTypesProp,
+    typeConversions: typeConversionsProp = NO_CONVERSIONS,
+    validateConnection,
     initialNodes = [],
     initialConnections = [],
     onChange,
     disableHistory = false,
+    disableEvaluation = false,
+    evaluationWorker,
+    evaluationCacheSize,
+    assets,
+    graph: externalGraph,
     nodeRef,
     returningCallback
 }) => {
-    const { history, set, undo, redo, canUndo, canRedo } = useHistory<AppState>({
-        nodes: initialNodes,
-        connections: initialConnections,
-    });
-
-    const { nodes, connections } = history.present;
+    // Inline registries keep their identity while their entries do not change
+    const nodeTypes = useShallowStable(nodeTypesProp);
+    const typeConversions = useShallowStable(typeConversionsProp);
+
+    // NodeSystem is a view over a Graph model, which owns state and history
+    const graph = useMemo(
+        () => externalGraph ?? new Graph({ nodeTypes, conversions: typeConversions, validateConnection, assets, nodes: initialNodes, connections: initialConnections }),
+        [externalGraph]
+    );
+    useEffect(() => {
+        graph.setNodeTypes(nodeTypes);
+        graph.setConversions(typeConversions);
+        graph.setConnectionValidator(validateConnection);
+    }, [graph, nodeTypes, typeConversions, validateConnection]);
+
+    // Ids of the group nodes being edited, outermost first. The editor shows
+    // (and edits) the innermost level; the history is shared with the root.
+    const [groupPath, setGroupPath] = useState<string[]>([]);
+    const level = useMemo(
+        () => groupPath.reduce((parent, id) => parent.getSubgraph(id), graph),
+        [graph, groupPath]
+    );
+    useEffect(() => {
+        level.setNodeTypes(nodeTypes);
+        level.setConversions(typeConversions);
+        level.setConnectionValidator(validateConnection);
+    }, [level, nodeTypes, typeConversions, validateConnection]);
+
+    const { nodes, connections, canUndo, canRedo } = useGraph(level);
+    // Changes at any level replace the root state, which is what gets evaluated
+    const { nodes: rootNodes, connections: rootConnections } = graph.getState();
     const isDraggingRef = useRef(false);
+    const [warning, setWarning] = useState<{ message: string } | undefined>(undefined);
+
+    // Groups that no longer exist (e.g. after an undo) are left automatically
+    const groupTrail = useMemo(() => {
+        const trail: { id: string; title: string }[] = [];
+        let levelNodes = graph.nodes;
+        for (const id of groupPath) {
+            const group = levelNodes.find(n => n.id === id);
+            if (!group?.subgraph) break;
+            trail.push({ id, title: group.subgraph.title ?? "Group" });
+            levelNodes = group.subgraph.nodes;
+        }
+        return trail;
+    }, [graph.nodes, groupPath]);
+
+    useEffect(() => {
+        if (groupTrail.length < groupPath.length) {
+            setGroupPath(groupPath.slice(0, groupTrail.length));
+        }
+    }, [groupTrail, groupPath]);
+
+    // The evaluator lives across renders so that it can keep results of
+    // nodes that did not change and only recompute dirty ones
+    const evaluator = useMemo(
+        () => evaluationWorker
+            ? new WorkerGraphEvaluator(evaluationWorker)
+            : new GraphEvaluator(nodeTypes, { cacheSize: evaluationCacheSize, conversions: typeConversions }),
+        [evaluationWorker, evaluationCacheSize, typeConversions]
+    );
+
+    // Re-render whenever an asynchronous node settles or the worker reports back
+    const [evaluationRevision, setEvaluationRevision] = useState(0);
+    useEffect(() => {
+        const unsubscribe = evaluator.subscribe(() => setEvaluationRevision(r => r + 1));
+        return () => {
+            unsubscribe();
+            evaluator.dispose();
+        };
+    }, [evaluator]);
+
+    // Assets the nodes refer to are loaded from the store, then the nodes
+    // using them are evaluated again with the data
+    const [assetRevision, setAssetRevision] = useState(0);
+    useEffect(() => {
+        if (!assets) return;
+        const missing = collectAssetRefs(rootNodes, nodeTypes).filter(ref => assets.get(ref) === undefined);
+        if (missing.length === 0) return;
+        let cancelled = false;
+        assets.load(missing).then(() => {
+            if (!cancelled) setAssetRevision(r => r + 1);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [rootNodes, nodeTypes, assets]);
+
+    // Run the built-in engine when node types define compute functions
+    // (in worker mode the compute functions live in the worker). Compute
+    // functions receive the data of assets, not their references. The root
+    // graph is evaluated even while a group is open, so that the group's
+    // inner nodes see the values bound to its inputs.
+    const evaluation = useMemo(() => {
+        if (disableEvaluation || (!evaluationWorker && !Object.values(nodeTypes).some(t => t.compute))) {
+            return null;
+        }
+        // A worker evaluates with the node types its script registered
+        if (evaluator instanceof GraphEvaluator) {
+            evaluator.setNodeTypes(nodeTypes);
+        }
+        try {
+            evaluator.update(assets ? resolveAssets(rootNodes, nodeTypes, assets) : rootNodes, rootConnections);
+        } catch (e) {
+            console.error("Error in graph evaluation:", e);
+        }
+        return { results: evaluator.getResults(), states: evaluator.getNodeStates() };
+    }, [evaluator, rootNodes, rootConnections, nodeTypes, disableEvaluation, evaluationWorker, evaluationRevision, assets, assetRevision]);
+
+    // Values of the open level, read from the inner details of each group on the path
+    const levelEvaluation = useMemo(() => {
+        if (!evaluation) return null;
+        return groupPath.reduce(
+            (outer, id) => outer.states[id]?.inner ?? { results: {}, states: {} },
+            evaluation
+        );
+    }, [evaluation, groupPath]);
+
+    const evaluatedNodes = useMemo(
+        () => levelEvaluation ? applyResults(nodes, levelEvaluation.results) : nodes,
+        [nodes, levelEvaluation?.results]
+    );
 
-    // Apply transformation if callback is provided
-    const { nodes: displayNodes, connections: displayConnections } = useMemo(() => {
-        const state = { nodes, connections };
-        if (returningCallback) {
-            try {
-                return returningCallback(state);
-            } catch (e) {
+    // What the callback last changed in each node's data, reapplied while it
+    // fails so that the nodes keep showing its last good output
+    const callbackOutputRef = useRef(new Map<string, Record<string, any>>());
+
+    // Apply transformation if callback is provided. A NodeError thrown by the
+    // callback is attributed to its node, other errors to the graph as a whole;
+    // the engine's results stay visible either way.
+    const { nodes: displayNodes, connections: displayConnections, callbackError } = useMemo(() => {
+        const state = { nodes: evaluatedNodes, connections };
+        if (!returningCallback) {
+            return { ...state, callbackError: null };
+        }
+        try {
+            const output = returningCallback(state);
+            callbackOutputRef.current = collectCallbackOutput(state.nodes, output.nodes);
+            return { ...output, callbackError: null };
+        } catch (e) {
+            if (!(e instanceof NodeError)) {
                 console.error("Error in returningCallback:", e);
-                return state;
             }
+            const callbackError: NodeErrorInfo = e instanceof NodeError
+                ? { nodeId: e.nodeId, message: e.message }
+                : { message: `returningCallback failed: ${e instanceof Error ? e.message : String(e)}` };
+            return { ...state, nodes: reapplyCallbackOutput(state.nodes, callbackOutputRef.current), callbackError };
+        }
+    }, [evaluatedNodes, connections, returningCallback]);
+
+    const nodeStates = useMemo<GraphNodeStates | undefined>(() => {
+        if (!callbackError?.nodeId) return levelEvaluation?.states;
+        return {
+            ...levelEvaluation?.states,
+            [callbackError.nodeId]: { status: "error", error: callbackError.message },
+        };
+    }, [levelEvaluation?.states, callbackError]);
+
+    // Failures not attributed to a node are shown in the warning banner
+    useEffect(() => {
+        if (callbackError && !callbackError.nodeId) {
+            setWarning({ message: callbackError.message });
         }
-        return state;
-    }, [nodes, connections, returningCallback]);
+    }, [callbackError]);
+
+    const callbackErrorRef = useRef(callbackError);
+    callbackErrorRef.current = callbackError;
+    const nodeStatesRef = useRef(nodeStates);
+    nodeStatesRef.current = nodeStates;
 
     // Also keep a ref to processed state for the handle
     const processedStateRef = useRef<AppState>({ nodes: displayNodes, connections: displayConnections });
     processedStateRef.current = { nodes: displayNodes, connections: displayConnections };
 
-    // Keep a ref to the latest state so that imperative methods always access fresh data
-    const stateRef = useRef<AppState>({ nodes, connections });
-    stateRef.current = { nodes, connections };
-
-    // Keep refs to history functions so they're always fresh
-    const setRef = useRef(set);
-    setRef.current = set;
-    const undoRef = useRef(undo);
-    undoRef.current = undo;
-    const redoRef = useRef(redo);
-    redoRef.current = redo;
 
-    // Notify parent of changes
+    // Notify parent of changes (always with the top-level graph)
     useEffect(() => {
-        onChange?.(nodes, connections);
-    }, [nodes, connections, onChange]);
+        onChange?.(graph.nodes, graph.connections);
+    }, [graph.nodes, graph.connections, onChange]);
 
     // Manually manage node ref - this bypasses Preact's forwardRef issues
     useEffect(() => {
         if (!nodeRef) return;
 
         const handle: NodeSystemHandle = {
-            getNodes: () => stateRef.current.nodes,
-            getConnections: () => stateRef.current.connections,
-            setNodes: (newNodes: NodeData[]) => setRef.current({ nodes: newNodes, connections: stateRef.current.connections }),
-            setConnections: (newConnections: Connection[]) => setRef.current({ nodes: stateRef.current.nodes, connections: newConnections }),
-            save: () => ({ nodes: stateRef.current.nodes, connections: stateRef.current.connections }),
-            load: (data: AppState) => setRef.current(data),
+            getNodes: () => graph.nodes,
+            getConnections: () => graph.connections,
+            setNodes: (newNodes: NodeData[]) => graph.setState({ nodes: newNodes, connections: graph.connections }),
+            setConnections: (newConnections: Connection[]) => graph.setState({ nodes: graph.nodes, connections: newConnections }),
+            save: () => graph.getState(),
+            load: (data: AppState) => {
+                const rejected = graph.load(data);
+                if (rejected.length > 0) {
+                    setWarning({ message: `Removed ${rejected.length} connection(s): ${[...new Set(rejected.map(r => r.reason))].join("; ")}` });
+                }
+            },
             getProcessedState: () => processedStateRef.current,
-            undo: () => undoRef.current(),
-            redo: () => redoRef.current(),
+            getNodeErrors: () => {
+                const errors = collectNodeErrors(nodeStatesRef.current ?? {});
+                const callbackError = callbackErrorRef.current;
+                return callbackError && !callbackError.nodeId ? [...errors, callbackError] : errors;
+            },
+            getGraph: () => graph,
+            undo: () => graph.undo(),
+            redo: () => graph.redo(),
             canUndo,
             canRedo,
         };
@@ -114,7 +314,7 @@ export const NodeSystem: FunctionalComponent<NodeSystemProps> = ({
                 (nodeRef as any).current = null;
             };
         }
-    }, [nodeRef, canUndo, canRedo]);
+    }, [nodeRef, graph, canUndo, canRedo]);
 
     // Keyboard shortcuts for Undo/Redo
     useEffect(() => {
@@ -126,19 +326,19 @@ export const NodeSystem: FunctionalComponent<NodeSystemProps> = ({
             if (isCtrlOrCmd && e.key === "z") {
                 e.preventDefault();
                 if (e.shiftKey) {
-                    redo();
+                    graph.redo();
                 } else {
-                    undo();
+                    graph.undo();
                 }
             } else if (isCtrlOrCmd && e.key === "y") {
                 e.preventDefault();
-                redo();
+                graph.redo();
             }
         };
 
         window.addEventListener("keydown", handleKeyDown);
         return () => window.removeEventListener("keydown", handleKeyDown);
-    }, [undo, redo, disableHistory]);
+    }, [graph, disableHistory]);
 
     const handleNodeDragStart = useCallback(() => {
         isDraggingRef.current = true;
@@ -149,155 +349,99 @@ export const NodeSystem: FunctionalComponent<NodeSystemProps> = ({
     }, []);
 
     const handleNodeMove = (id: string, x: number, y: number) => {
-        set({
-            nodes: nodes.map((n) => (n.id === id ? { ...n, x, y } : n)),
-            connections,
-        }, { replace: isDraggingRef.current });
+        level.moveNode(id, x, y, { replace: isDraggingRef.current });
     };
 
     const handleNodeSelect = (id: string | string[] | null, evt?: PointerEvent) => {
-        if (id === null) {
-            // Deselect all nodes
-            set({
-                nodes: nodes.map((n) => ({ ...n, selected: false })),
-                connections,
-            }, { replace: true });
-            return;
-        }
-
-        if (Array.isArray(id)) {
-            set({
-                nodes: nodes.map((n) => ({
-                    ...n,
-                    selected: id.includes(n.id)
-                })),
-                connections
-            }, { replace: true });
-            return;
-        }
-
-        // ID is string (single node click)
-        set({
-            nodes: (() => {
-                const isCtrlPressed = evt?.ctrlKey || evt?.metaKey;
-                if (isCtrlPressed) {
-                    return nodes.map((n) => n.id === id ? { ...n, selected: !n.selected } : n);
-                } else {
-                    return nodes.map((n) => ({ ...n, selected: n.id === id }));
-                }
-            })(),
-            connections,
-        }, { replace: true });
+        level.select(id, { toggle: !!(evt?.ctrlKey || evt?.metaKey) });
     };
 
     const handleCompleteConnection = (connection: Connection) => {
-        set({
-            nodes,
-            connections: [...connections, connection],
-        });
+        level.connect(connection);
     };
 
     const handleAddNode = (nodeTypeId: string, x: number, y: number) => {
-        const newNodeId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const newNode: NodeData = {
-            id: newNodeId,
-            type: nodeTypeId,
-            x,
-            y,
-            data: {},
-        };
-
-        set({
-            nodes: [...nodes, newNode],
-            connections,
-        });
+        level.addNode(nodeTypeId, x, y);
     };
 
     const handleNodeDelete = (id: string | string[]) => {
-        const idsToDelete = Array.isArray(id) ? id : [id];
-        set({
-            nodes: nodes.filter((n) => !idsToDelete.includes(n.id)),
-            connections: connections.filter((c) => !idsToDelete.includes(c.from.nodeId) && !idsToDelete.includes(c.to.nodeId)),
-        });
+        level.deleteNodes(id);
     };
 
     const handlePasteNodes = (newNodes: NodeData[]) => {
-        const deselectedNodes = nodes.map(n => ({ ...n, selected: false }));
-        const nodesWithSelection = newNodes.map(n => ({ ...n, data: n.data ?? {}, selected: n.selected ?? true }));
-
-        set({
-            nodes: [...deselectedNodes, ...nodesWithSelection],
-            connections,
-        });
+        level.pasteNodes(newNodes);
     };
 
     const handleNodeValueChange = (id: string, portName: string, value: any) => {
-        set({
-            nodes: nodes.map((n) =>
-                n.id === id
-                    ? {
-                        ...n,
-                        data: {
-                            ...n.data,
-                            [portName]: value,
-                        },
-                    }
-                    : n
-            ),
-            connections,
-        });
+        level.setNodeValue(id, portName, value);
     };
 
     const handleSpliceNode = (nodeId: string, connectionToRemove: Connection, inputPort: string, outputPort: string, newX?: number, newY?: number) => {
-        // Use current ref to ensure we have the absolute latest state including recent moves
-        const currentNodes = stateRef.current.nodes;
-        const currentConnections = stateRef.current.connections;
+        const reason = level.spliceNode(nodeId, connectionToRemove, inputPort, outputPort, newX, newY);
+        if (reason) {
+            setWarning({ message: reason });
+        }
+    };
 
-        const connectionIn: Connection = {
-            from: connectionToRemove.from,
-            to: { nodeId, port: inputPort }
-        };
-        const connectionOut: Connection = {
-            from: { nodeId, port: outputPort },
-            to: connectionToRemove.to
-        };
+    const handleGroupNodes = (ids: string[]) => {
+        try {
+            level.groupNodes(ids);
+            return null;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    };
 
-        // Update node position if new coords are provided (snap to line)
-        const updatedNodes = newX !== undefined && newY !== undefined
-            ? currentNodes.map(n => n.id === nodeId ? { ...n, x: newX, y: newY } : n)
-            : currentNodes;
-
-        set({
-            nodes: updatedNodes,
-            connections: [
-                ...currentConnections.filter(c => c !== connectionToRemove),
-                connectionIn,
-                connectionOut
-            ]
-        });
+    const handleUngroupNode = (id: string) => {
+        level.ungroupNode(id);
+    };
+
+    const handleOpenGroup = (id: string) => {
+        setGroupPath([...groupTrail.map(g => g.id), id]);
+    };
+
+    const handleAddPort = (id: string, direction: PortDirection) => {
+        level.addPort(id, direction);
+    };
+
+    const handleRemovePort = (id: string, direction: PortDirection, portName: string) => {
+        level.removePort(id, direction, portName);
+    };
+
+    const handleExitGroup = (depth: number) => {
+        setGroupPath(groupPath.slice(0, depth));
     };
 
     return (
         <NodePlatform
             nodes={displayNodes}
             nodeTypes={nodeTypes}
+            typeConversions={typeConversions}
+            validateConnection={validateConnection}
+            warning={warning}
             edges={displayConnections}
+            nodeStates={nodeStates}
             onNodeMove={handleNodeMove}
             onNodeSelect={handleNodeSelect}
             onNodeDelete={handleNodeDelete}
             onCompleteConnection={handleCompleteConnection}
-            onDeleteConnection={(connection) => {
-                set({
-                    nodes,
-                    connections: connections.filter(c => c !== connection),
-                });
-            }}
+            onDeleteConnection={(connection) => level.disconnect(connection)}
             onAddNode={handleAddNode}
             onPasteNodes={handlePasteNodes}
             onNodeValueChange={handleNodeValueChange}
             onNodeDragStart={handleNodeDragStart}
             onNodeDragEnd={handleNodeDragEnd}
             onSpliceNode={handleSpliceNode}
+            onGroupNodes={handleGroupNodes}
+            onUngroupNode={handleUngroupNode}
+            onOpenGroup={handleOpenGroup}
+            groupPath={groupTrail}
+            onExitGroup={handleExitGroup}
+            onAddPort={handleAddPort}
+            onRemovePort={handleRemovePort}
+            onMoveConnection={(connection, index) => level.moveConnection(connection, index)}
+            onRemapNodeType={(id, type) => level.remapNodeType(id, type)}
+            assets={assets}
         />
     );
 };
\ No newline at end of file
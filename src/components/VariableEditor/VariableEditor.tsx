@@ -8,6 +8,11 @@ import { ColorEditor } from "./editors/ColorEditor";
 import { ImageEditor } from "./editors/ImageEditor";
 import { StringEditor } from "./editors/StringEditor";
 import { BooleanEditor } from "./editors/BooleanEditor";
+import { EnumEditor } from "./editors/EnumEditor";
+import { StructEditor } from "./editors/StructEditor";
+import { getEnumOptions } from "../../utils/ports";
+import type { PortDef } from "../Node/node";
+import type { AssetStore } from "../../utils/assets";
 import "./VariableEditor.css";
 
 type Props = {
@@ -15,14 +20,27 @@ type Props = {
     value: any;
     onChange: (value: any) => void;
     disabled?: boolean;
+    port?: PortDef; // supplies the default shown for missing values, limits, unit, enum options and struct fields
+    assets?: AssetStore; // where uploaded images are stored; values then hold references to them
 };
 
 export const VariableEditor: FunctionalComponent<Props> = ({
     type,
-    value,
+    value: storedValue,
     onChange,
     disabled = false,
+    port,
+    assets,
 }) => {
+    const value = storedValue ?? port?.default;
+    const limits = port && { min: port.min, max: port.max, step: port.step };
+    const options = port?.options && getEnumOptions(port);
+
+    // Structs expand into one editor per field; read-only ones too
+    if (port?.fields) {
+        return <StructEditor value={value} onChange={onChange} disabled={disabled} type={type ?? port.type} fields={port.fields} assets={assets} />;
+    }
+
     if (disabled) {
         // If this is a string and disabled (e.g. preview on node outputs),
         // render a compact single-line preview showing only the beginning + "..."
@@ -40,6 +58,12 @@ export const VariableEditor: FunctionalComponent<Props> = ({
             );
         }
 
+        // Enum values read as their labels
+        if (options) {
+            const option = options.find((o) => o.value === value);
+            return <div className="node-variable-readonly">{option ? option.label ?? option.value : String(value ?? '')}</div>;
+        }
+
         // Render a simple read-only representation when disabled for other types
         const format = (v: any) => {
             if (v === null || v === undefined) return String(v);
@@ -55,17 +79,22 @@ export const VariableEditor: FunctionalComponent<Props> = ({
         return <div className="node-variable-readonly">{format(value)}</div>;
     }
 
+    // Any port with options is edited as an enum, whatever its type name
+    if (options) {
+        return <EnumEditor value={value} onChange={onChange} disabled={disabled} options={options} />;
+    }
+
     switch (type) {
         case "number":
-            return <NumberEditor value={value} onChange={onChange} disabled={disabled} />;
+            return <NumberEditor value={value} onChange={onChange} disabled={disabled} limits={limits} unit={port?.unit} />;
         case "Vec2":
-            return <Vec2Editor value={value} onChange={onChange} disabled={disabled} />;
+            return <Vec2Editor value={value} onChange={onChange} disabled={disabled} limits={limits} />;
         case "Vec3":
-            return <Vec3Editor value={value} onChange={onChange} disabled={disabled} />;
+            return <Vec3Editor value={value} onChange={onChange} disabled={disabled} limits={limits} />;
         case "color":
             return <ColorEditor value={value} onChange={onChange} disabled={disabled} />;
         case "image":
-            return <ImageEditor value={value} onChange={onChange} disabled={disabled} />;
+            return <ImageEditor value={value} onChange={onChange} disabled={disabled} assets={assets} />;
         case "string":
             return <StringEditor value={value} onChange={onChange} disabled={disabled} />;
         case "boolean":
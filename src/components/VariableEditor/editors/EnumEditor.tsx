@@ -0,0 +1,47 @@
+import { h } from "preact";
+import type { FunctionalComponent } from "preact";
+import type { EnumOption } from "../../Node/node";
+import "../VariableEditor.css";
+
+type Props = {
+    value: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+    options: EnumOption[];
+};
+
+export const EnumEditor: FunctionalComponent<Props> = ({
+    value,
+    onChange,
+    disabled = false,
+    options,
+}) => {
+    const handlePointerDown = (e: PointerEvent) => {
+        e.stopPropagation();
+    };
+
+    const handleChange = (e: Event) => {
+        e.stopPropagation();
+        onChange((e.target as HTMLSelectElement).value);
+    };
+
+    const known = options.some((option) => option.value === value);
+
+    return (
+        <div className="node-variable-editor-enum" onPointerDown={handlePointerDown as any}>
+            <select
+                className="node-variable-editor-pill node-enum-select"
+                value={value ?? ""}
+                onChange={handleChange as any}
+                onKeyDown={(e) => e.stopPropagation()}
+                disabled={disabled}
+            >
+                {/* Without a value yet, nothing is preselected */}
+                {!known && <option value="" disabled>—</option>}
+                {options.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label ?? option.value}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
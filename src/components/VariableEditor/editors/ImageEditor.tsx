@@ -2,24 +2,28 @@ import { h } from "preact";
 import { useState, useRef, useEffect } from "preact/hooks";
 import { createPortal } from "preact/compat";
 import type { FunctionalComponent } from "preact";
+import { isAssetRef, type AssetStore } from "../../../utils/assets";
 import "../VariableEditor.css";
 
 type Props = {
     value?: string | null;
     onChange: (value: string | null) => void;
     disabled?: boolean;
+    assets?: AssetStore; // stores uploads once and hands back a reference instead of the data URL
 };
 
-export const ImageEditor: FunctionalComponent<Props> = ({ value, onChange, disabled = false }) => {
-    const [preview, setPreview] = useState<string | null>(value || null);
+export const ImageEditor: FunctionalComponent<Props> = ({ value, onChange, disabled = false, assets }) => {
+    // References show nothing until their asset has been loaded
+    const stored = isAssetRef(value) ? assets?.get(value) ?? null : value || null;
+    const [preview, setPreview] = useState<string | null>(stored);
     const [showMenu, setShowMenu] = useState(false);
     const [popoverPosition, setPopoverPosition] = useState({ x: 0, y: 0 });
     const inputRef = useRef<HTMLInputElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
 
     useEffect(() => {
-        setPreview(value || null);
-    }, [value]);
+        setPreview(stored);
+    }, [stored]);
 
     if (disabled) return null;
 
@@ -33,10 +37,16 @@ export const ImageEditor: FunctionalComponent<Props> = ({ value, onChange, disab
         const reader = new FileReader();
         reader.onload = () => {
             const result = reader.result as string | ArrayBuffer | null;
-            if (typeof result === "string") {
-                setPreview(result);
+            if (typeof result !== "string") return;
+            setPreview(result);
+            if (!assets) {
                 onChange(result);
+                return;
             }
+            assets.put(result).then(onChange, (e) => {
+                console.error("Failed to store image:", e);
+                onChange(result);
+            });
         };
         reader.readAsDataURL(file);
     };
@@ -102,7 +112,7 @@ export const ImageEditor: FunctionalComponent<Props> = ({ value, onChange, disab
 
             {/* Always show a small placeholder; preview is shown only inside the popover */}
             <div className="node-image-preview-label" onClick={openMenu as any}>
-                <div className="node-image-placeholder">{preview ? "Image" : "Upload"}</div>
+                <div className="node-image-placeholder">{preview || value ? "Image" : "Upload"}</div>
             </div>
 
             {showMenu && createPortal(
@@ -129,7 +139,7 @@ export const ImageEditor: FunctionalComponent<Props> = ({ value, onChange, disab
 
                         <div className="node-image-popover-actions">
                             <button className="node-image-popover-button" onClick={handleUploadClick}>Load</button>
-                            <button className="node-image-popover-button" onClick={handleDelete} disabled={!preview}>Remove</button>
+                            <button className="node-image-popover-button" onClick={handleDelete} disabled={!preview && !value}>Remove</button>
                         </div>
                     </div>
                 </div>,
@@ -2,18 +2,23 @@ import { h } from "preact";
 import { useState, useRef, useEffect } from "preact/hooks";
 import { createPortal } from "preact/compat";
 import type { FunctionalComponent } from "preact";
+import { NumberLimits, constrainNumber, describeLimits } from "../limits";
 import "../VariableEditor.css";
 
 type Props = {
     value: number;
     onChange: (value: number) => void;
     disabled?: boolean;
+    limits?: NumberLimits;
+    unit?: string;
 };
 
 export const NumberEditor: FunctionalComponent<Props> = ({
     value,
     onChange,
     disabled = false,
+    limits,
+    unit,
 }) => {
     const getDisplayValue = (val: any) => {
         if (val !== undefined && val !== null) {
@@ -52,7 +57,7 @@ export const NumberEditor: FunctionalComponent<Props> = ({
 
     const commit = () => {
         const n = parseFloat(tempValue as string);
-        if (!isNaN(n)) onChange(n);
+        if (!isNaN(n)) onChange(constrainNumber(n, limits));
         setShowMenu(false);
     };
 
@@ -82,9 +87,10 @@ export const NumberEditor: FunctionalComponent<Props> = ({
             <div
                 className="node-variable-editor node-variable-editor-number node-variable-display node-variable-editor-pill"
                 onClick={openMenu as any}
-                title="Click to edit"
+                title={describeLimits(limits) || "Click to edit"}
             >
                 {getDisplayValue(value)}
+                {unit && <span className="node-variable-editor-unit">{unit}</span>}
             </div>
 
             {showMenu && createPortal(
@@ -102,7 +108,7 @@ export const NumberEditor: FunctionalComponent<Props> = ({
                         onPointerDown={(e) => e.stopPropagation()}
                     >
                         <div className="node-color-row">
-                            <div className="node-color-label">Value</div>
+                            <div className="node-color-label">{unit ? `Value (${unit})` : "Value"}</div>
                             <input
                                 ref={inputRef}
                                 className="node-color-input"
@@ -0,0 +1,66 @@
+import { h } from "preact";
+import { useState } from "preact/hooks";
+import type { FunctionalComponent } from "preact";
+import type { PortDef } from "../../Node/node";
+import type { AssetStore } from "../../../utils/assets";
+import VariableEditor from "../VariableEditor";
+import "../VariableEditor.css";
+
+type Props = {
+    value: Record<string, any> | undefined;
+    onChange: (value: Record<string, any>) => void;
+    disabled?: boolean;
+    type: string;
+    fields: PortDef[];
+    assets?: AssetStore;
+};
+
+export const StructEditor: FunctionalComponent<Props> = ({
+    value,
+    onChange,
+    disabled = false,
+    type,
+    fields,
+    assets,
+}) => {
+    const [expanded, setExpanded] = useState(false);
+
+    const toggle = (e: MouseEvent) => {
+        e.stopPropagation();
+        setExpanded(!expanded);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+        e.stopPropagation();
+    };
+
+    return (
+        <div className="node-variable-editor-struct" onPointerDown={handlePointerDown as any}>
+            <div
+                className="node-variable-editor-pill"
+                onClick={toggle as any}
+                title={expanded ? "Collapse" : "Expand"}
+            >
+                {expanded ? "▾" : "▸"} {type}
+            </div>
+            {expanded && (
+                <div className="node-struct-fields">
+                    {fields.filter((field) => !field.hidden).map((field) => (
+                        <div className="node-struct-field" key={field.name}>
+                            <div className="node-struct-field-label" title={field.description}>{field.name}</div>
+                            {/* Each field is edited with the editor of its own type, nested structs included */}
+                            <VariableEditor
+                                type={field.type}
+                                value={value?.[field.name]}
+                                onChange={(fieldValue) => onChange({ ...(value ?? {}), [field.name]: fieldValue })}
+                                disabled={disabled}
+                                port={field}
+                                assets={assets}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,18 +2,21 @@ import { h } from "preact";
 import { useState, useRef, useEffect } from "preact/hooks";
 import { createPortal } from "preact/compat";
 import type { FunctionalComponent } from "preact";
+import { NumberLimits, constrainNumber } from "../limits";
 import "../VariableEditor.css";
 
 type Props = {
     value: number[];
     onChange: (value: number[]) => void;
     disabled?: boolean;
+    limits?: NumberLimits; // applied to each component
 };
 
 export const Vec2Editor: FunctionalComponent<Props> = ({
     value,
     onChange,
     disabled = false,
+    limits,
 }) => {
     // We'll use a popover submenu like Image/Color editors
     const [showMenu, setShowMenu] = useState(false);
@@ -56,7 +59,7 @@ export const Vec2Editor: FunctionalComponent<Props> = ({
     const commitVecValue = () => {
         const nums = vecInternal.map((v) => parseFloat(v));
         if (nums.every((n) => !isNaN(n))) {
-            onChange(nums);
+            onChange(nums.map((n) => constrainNumber(n, limits)));
         }
         setShowMenu(false);
     };
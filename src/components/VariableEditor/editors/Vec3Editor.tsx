@@ -2,18 +2,21 @@ import { h } from "preact";
 import { useState, useRef, useEffect } from "preact/hooks";
 import { createPortal } from "preact/compat";
 import type { FunctionalComponent } from "preact";
+import { NumberLimits, constrainNumber } from "../limits";
 import "../VariableEditor.css";
 
 type Props = {
     value: number[];
     onChange: (value: number[]) => void;
     disabled?: boolean;
+    limits?: NumberLimits; // applied to each component
 };
 
 export const Vec3Editor: FunctionalComponent<Props> = ({
     value,
     onChange,
     disabled = false,
+    limits,
 }) => {
     const [showMenu, setShowMenu] = useState(false);
     const [vecInternal, setVecInternal] = useState<string[]>(["0", "0", "0"]);
@@ -55,7 +58,7 @@ export const Vec3Editor: FunctionalComponent<Props> = ({
     const commitVecValue = () => {
         const nums = vecInternal.map((v) => parseFloat(v));
         if (nums.every((n) => !isNaN(n))) {
-            onChange(nums);
+            onChange(nums.map((n) => constrainNumber(n, limits)));
         }
         setShowMenu(false);
     };
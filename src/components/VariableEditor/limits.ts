@@ -0,0 +1,36 @@
+/**
+ * Bounds and increment of a numeric value, taken from its port definition.
+ */
+export type NumberLimits = {
+    min?: number;
+    max?: number;
+    step?: number;
+};
+
+/**
+ * Snaps a number to the nearest step (counted from `min`, or 0) and clamps it
+ * to the bounds.
+ */
+export const constrainNumber = (n: number, { min, max, step }: NumberLimits = {}): number => {
+    let result = n;
+    if (step !== undefined && step > 0) {
+        const origin = min ?? 0;
+        // toPrecision drops the float noise of the multiplication (0.1 * 3)
+        result = Number((origin + Math.round((result - origin) / step) * step).toPrecision(12));
+    }
+    if (min !== undefined && result < min) result = min;
+    if (max !== undefined && result > max) result = max;
+    return result;
+};
+
+/**
+ * Describes the limits for a tooltip, e.g. "0 – 1, step 0.1".
+ */
+export const describeLimits = ({ min, max, step }: NumberLimits = {}): string => {
+    const parts: string[] = [];
+    if (min !== undefined || max !== undefined) {
+        parts.push(`${min ?? "−∞"} – ${max ?? "∞"}`);
+    }
+    if (step !== undefined) parts.push(`step ${step}`);
+    return parts.join(", ");
+};
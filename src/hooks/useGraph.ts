@@ -0,0 +1,30 @@
+import { useState, useEffect } from "preact/hooks";
+import type { Graph } from "../utils/graph";
+import type { NodeData, Connection } from "../components/Node/node";
+
+interface GraphSnapshot {
+    nodes: NodeData[];
+    connections: Connection[];
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+/**
+ * Subscribes a component to a Graph and re-renders it on every change.
+ */
+export function useGraph(graph: Graph): GraphSnapshot {
+    const [, setRevision] = useState(0);
+
+    useEffect(() => {
+        return graph.subscribe(() => setRevision((r) => r + 1));
+    }, [graph]);
+
+    const { nodes, connections } = graph.getState();
+
+    return {
+        nodes,
+        connections,
+        canUndo: graph.canUndo,
+        canRedo: graph.canRedo,
+    };
+}
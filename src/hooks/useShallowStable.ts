@@ -0,0 +1,22 @@
+import { useRef } from "preact/hooks";
+
+function shallowEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && a[key] === b[key]);
+}
+
+/**
+ * Returns the value from the previous render while the new one holds the same
+ * entries, so that props written inline (e.g. `nodeTypes={{ ... }}`) do not
+ * reset what depends on them every render.
+ */
+export function useShallowStable<T>(value: T): T {
+    const ref = useRef(value);
+    if (!shallowEqual(ref.current, value)) {
+        ref.current = value;
+    }
+    return ref.current;
+}
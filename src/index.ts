@@ -1,6 +1,77 @@
 export { NodePlatform } from "./components/NodePlatform/NodePlatform";
 export { NodeSystem, type NodeSystemProps, type NodeSystemHandle } from "./components/NodeSystem/NodeSystem";
 export { Node } from "./components/Node/Node.tsx";
-export type { Connection, NodeData, NodeTypeDef } from "./components/Node/node.ts";
-export { serializeGraph } from "./utils/serialize";
-export { deserializeGraph } from "./utils/deserialize";
+export type {
+    Connection,
+    NodeData,
+    NodeTypeDef,
+    PortDef,
+    PortKind,
+    DynamicPortsDef,
+    EnumOption,
+    PortRef,
+    Subgraph,
+    SubgraphInput,
+    SubgraphOutput,
+    ComputeFn,
+    ComputeContext,
+    ExecuteFn,
+    ExecuteResult,
+    ExecutionContext,
+    NodeStatus,
+    NodeRunDetails,
+    InnerRunDetails,
+    NodeRunState,
+    NodeUpgrade,
+} from "./components/Node/node.ts";
+export { Graph, type GraphOptions, type SetStateOptions } from "./utils/graph";
+export {
+    validateConnection,
+    applyConnectionValidator,
+    type ConnectionValidator,
+    type RejectedConnection,
+} from "./utils/validation";
+export { serializeGraph, GRAPH_FORMAT_VERSION, type SerializedGraphFile } from "./utils/serialize";
+export { deserializeGraph, readGraph, type GraphState, type DeserializeReport } from "./utils/deserialize";
+export { upgradeGraph } from "./utils/upgrades";
+export {
+    ASSET_REF_PREFIX,
+    IMAGE_TYPE,
+    createAssetStore,
+    createMemoryAssetStore,
+    createIndexedDBAssetStore,
+    isAssetRef,
+    collectAssetRefs,
+    resolveAssets,
+    internAssets,
+    exportGraphBundle,
+    importGraphBundle,
+    type AssetStore,
+    type SerializedGraphBundle,
+} from "./utils/assets";
+export { repairGraph, isValidPortValue, type GraphProblem } from "./utils/repair";
+export { compileGraph, type CompiledGraph, type CompileOptions, type GraphInputs } from "./utils/compile";
+export {
+    evaluateGraph,
+    GraphEvaluator,
+    NodeError,
+    type GraphEvaluatorOptions,
+    type GraphResults,
+    type GraphNodeStates,
+    type NodeErrorInfo,
+} from "./utils/evaluate";
+export { topologicalSort } from "./utils/topology";
+export { GROUP_NODE_TYPE, MAP_INPUT_TYPE, MAP_OUTPUT_TYPE, getNodeTypeDef, getPlaceholderTypeDef, isTypeVariable } from "./utils/nodeTypes";
+export { resolveTypeVariables } from "./utils/generics";
+export { groupNodes, ungroupNode, cloneSubgraph, createMapNodeType } from "./utils/subgraph";
+export type { MapNodeTypeOptions } from "./utils/subgraph";
+export { createStructNodeTypes, structPort, type StructSchema } from "./utils/structs";
+export { runExecution, type ExecutionOptions, type ExecutionResult } from "./utils/execution";
+export { isExecPort, getPortDefaults, getEnumOptions, isAllowedValue } from "./utils/ports";
+export { ANY_TYPE, areTypesCompatible, findConversion, type TypeConversion } from "./utils/conversions";
+export {
+    registerEvaluationWorker,
+    WorkerGraphEvaluator,
+    type EvaluationWorkerRequest,
+    type EvaluationWorkerResponse,
+} from "./utils/worker";
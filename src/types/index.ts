@@ -2,7 +2,21 @@
 export type {
     PortDirection,
     PortDef,
+    PortKind,
+    DynamicPortsDef,
     NodeTypeDef,
     NodeData,
     Connection,
+    PortRef,
+    Subgraph,
+    SubgraphInput,
+    SubgraphOutput,
+    ComputeFn,
+    ComputeContext,
+    ExecuteFn,
+    ExecuteResult,
+    ExecutionContext,
+    NodeStatus,
+    NodeRunDetails,
+    NodeRunState,
 } from '../components/Node/node';
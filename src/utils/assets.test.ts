@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import { NodeData, NodeTypeDef } from "../components/Node/node";
+import { collectAssetRefs, createMemoryAssetStore, exportGraphBundle, internAssets, resolveAssets } from "./assets";
+import { structPort } from "./structs";
+import { GraphEvaluator } from "./evaluate";
+
+const image = "data:image/png;base64,AAAA";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  picture: {
+    id: "picture",
+    inputs: [{ name: "Image", type: "image" }, { name: "Caption", type: "string" }],
+    outputs: [],
+  },
+  layers: {
+    id: "layers",
+    inputs: [{ name: "Images", type: "image", multi: true }],
+    outputs: [],
+  },
+  sprite: {
+    id: "sprite",
+    inputs: [structPort({ id: "Sprite", fields: [{ name: "Texture", type: "image" }, { name: "Name", type: "string" }] })],
+    outputs: [],
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any>): NodeData => ({ id, type, x: 0, y: 0, data });
+
+describe("assets", () => {
+  it("only moves the values of image ports into the store", async () => {
+    const store = createMemoryAssetStore();
+    const nodes = [
+      node("p", "picture", { Image: image, Caption: image }),
+      node("l", "layers", { Images: [image, image] }),
+      node("s", "sprite", { Sprite: { Texture: image, Name: image } }),
+      node("u", "unknown", { Image: image }),
+    ];
+
+    const [p, l, s, u] = await internAssets(nodes, nodeTypes, store);
+    const ref = p.data!.Image;
+    expect(ref).toMatch(/^asset:/);
+    expect(p.data!.Caption).toBe(image);
+    expect(l.data!.Images).toEqual([ref, ref]);
+    expect(s.data!.Sprite).toEqual({ Texture: ref, Name: image });
+    expect(u).toBe(nodes[3]);
+  });
+
+  it("collects and resolves references of image ports only", async () => {
+    const store = createMemoryAssetStore();
+    const ref = await store.put(image);
+    const nodes = [node("p", "picture", { Image: ref, Caption: ref })];
+
+    expect(collectAssetRefs(nodes, nodeTypes)).toEqual([ref]);
+    const [resolved] = resolveAssets(nodes, nodeTypes, store);
+    expect(resolved.data).toEqual({ Image: image, Caption: ref });
+  });
+
+  it("keeps the resolved data of moved and selected nodes", async () => {
+    const store = createMemoryAssetStore();
+    const compute = vi.fn(() => ({}));
+    const types = { ...nodeTypes, picture: { ...nodeTypes.picture, memoize: false, compute } };
+    const evaluator = new GraphEvaluator(types);
+    const picture = node("p", "picture", { Image: await store.put(image) });
+
+    const [resolved] = resolveAssets([picture], types, store);
+    evaluator.update([resolved], []);
+    const [moved] = resolveAssets([{ ...picture, x: 10 }], types, store);
+    evaluator.update([moved], []);
+    const [selected] = resolveAssets([{ ...picture, x: 10, selected: true }], types, store);
+    evaluator.update([selected], []);
+
+    expect(moved.x).toBe(10);
+    expect(selected.data).toBe(resolved.data);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("bundles the images a graph refers to", async () => {
+    const store = createMemoryAssetStore();
+    const ref = await store.put(image);
+    const bundle = JSON.parse(await exportGraphBundle([node("p", "picture", { Image: ref })], [], nodeTypes, store));
+    expect(Object.values(bundle.assets)).toEqual([image]);
+  });
+});
@@ -0,0 +1,319 @@
+import { NodeData, NodeTypeDef, PortDef, Connection } from "../components/Node/node";
+import { SerializedGraphFile, serializeGraph } from "./serialize";
+import { getNodeTypeDef } from "./nodeTypes";
+
+/**
+ * Stored values of the form `asset:<id>` refer to an entry of an asset store
+ * instead of holding the (large) data themselves.
+ */
+export const ASSET_REF_PREFIX = "asset:";
+
+/**
+ * Keeps large values such as images out of node data. Every value is stored
+ * once under an id derived from its content, so adding the same image twice
+ * yields the same reference.
+ */
+export interface AssetStore {
+  put(data: string): Promise<string>; // stores a data URL, resolving with its `asset:` reference
+  get(ref: string): string | undefined; // data of a reference, if it is in memory
+  load(refs: string[]): Promise<void>; // brings persisted assets into memory for `get`
+}
+
+/**
+ * What `exportGraphBundle` writes: a graph file with the data of every asset
+ * it refers to, keyed by asset id. Readers that do not know about assets
+ * still read the graph.
+ */
+export interface SerializedGraphBundle extends SerializedGraphFile {
+  assets: Record<string, string>;
+}
+
+export function isAssetRef(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ASSET_REF_PREFIX);
+}
+
+const toRef = (id: string) => `${ASSET_REF_PREFIX}${id}`;
+const toId = (ref: string) => ref.slice(ASSET_REF_PREFIX.length);
+
+// Hex SHA-256 digest of the data, so that distinct images never share an id
+async function contentId(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Asset store keeping everything in memory, for tests, Node.js and browsers
+ * without IndexedDB.
+ */
+export function createMemoryAssetStore(): AssetStore {
+  const memory = new Map<string, string>();
+  return {
+    async put(data) {
+      const id = await contentId(data);
+      memory.set(id, data);
+      return toRef(id);
+    },
+    get: (ref) => memory.get(toId(ref)),
+    async load() {},
+  };
+}
+
+/**
+ * Asset store persisting to an IndexedDB database, so that saved graphs that
+ * refer to assets can be reopened in the same browser. Assets are also kept
+ * in memory once added or loaded.
+ */
+export function createIndexedDBAssetStore(name: string = "node-editor-assets"): AssetStore {
+  const memory = new Map<string, string>();
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore("assets");
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(database.transaction("assets", mode).objectStore("assets"));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async put(data) {
+      const id = await contentId(data);
+      if (!memory.has(id)) {
+        memory.set(id, data);
+        try {
+          await run("readwrite", (store) => store.put(data, id));
+        } catch (e) {
+          // Still usable for this session
+          console.error("Failed to persist asset:", e);
+        }
+      }
+      return toRef(id);
+    },
+    get: (ref) => memory.get(toId(ref)),
+    async load(refs) {
+      const missing = [...new Set(refs.map(toId))].filter((id) => !memory.has(id));
+      await Promise.all(missing.map(async (id) => {
+        try {
+          const data = await run("readonly", (store) => store.get(id));
+          if (typeof data === "string") memory.set(id, data);
+        } catch (e) {
+          console.error(`Failed to load asset "${id}":`, e);
+        }
+      }));
+    },
+  };
+}
+
+/**
+ * The default asset store: IndexedDB where available, memory otherwise.
+ */
+export function createAssetStore(): AssetStore {
+  return typeof indexedDB !== "undefined" ? createIndexedDBAssetStore() : createMemoryAssetStore();
+}
+
+/**
+ * Port type of images, the values that asset references stand in for.
+ */
+export const IMAGE_TYPE = "image";
+
+/**
+ * Returns the value with the images it holds for the given port replaced
+ * through `replace`: the value of an image port (or each value of a multi
+ * input), and struct fields of that type. Keeps the identity of arrays and
+ * objects in which nothing changed.
+ */
+function mapImages(value: any, port: PortDef, replace: (value: string) => string): any {
+  if (port.fields) {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) return value;
+    let changed = false;
+    const mapped: Record<string, any> = { ...value };
+    port.fields.forEach((field) => {
+      if (!(field.name in value)) return;
+      mapped[field.name] = mapImages(value[field.name], field, replace);
+      if (mapped[field.name] !== value[field.name]) changed = true;
+    });
+    return changed ? mapped : value;
+  }
+  if (port.type !== IMAGE_TYPE) return value;
+  if (typeof value === "string") return replace(value);
+  if (Array.isArray(value)) {
+    const mapped = value.map((v) => (typeof v === "string" ? replace(v) : v));
+    return mapped.some((v, i) => v !== value[i]) ? mapped : value;
+  }
+  return value;
+}
+
+function mapNodeImages(
+  nodes: NodeData[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  replace: (value: string) => string
+): NodeData[] {
+  const mapped = nodes.map((n) => {
+    // Nodes of unknown types are left alone, their ports are not known
+    const stored = n.data ?? {};
+    let data = n.data;
+    getNodeTypeDef(n, nodeTypes)?.inputs.forEach((port) => {
+      if (!(port.name in stored)) return;
+      const value = mapImages(stored[port.name], port, replace);
+      if (value !== stored[port.name]) {
+        data = { ...data, [port.name]: value };
+      }
+    });
+    const inner = n.subgraph && mapNodeImages(n.subgraph.nodes, nodeTypes, replace);
+    if (data === n.data && inner === n.subgraph?.nodes) return n;
+    return { ...n, data, ...(n.subgraph ? { subgraph: { ...n.subgraph, nodes: inner! } } : {}) };
+  });
+  return mapped.some((n, i) => n !== nodes[i]) ? mapped : nodes;
+}
+
+/**
+ * Every asset reference stored for image ports in the nodes' data, also
+ * inside groups.
+ */
+export function collectAssetRefs(nodes: NodeData[], nodeTypes: Record<string, NodeTypeDef>): string[] {
+  const refs = new Set<string>();
+  mapNodeImages(nodes, nodeTypes, (value) => {
+    if (isAssetRef(value)) refs.add(value);
+    return value;
+  });
+  return [...refs];
+}
+
+// Resolved nodes are cached per store and node types while all their assets
+// are in memory. They are keyed by the node's data (or subgraph), which moving
+// or selecting a node keeps, so that the evaluator sees the same resolved data
+// for nodes whose values did not change
+const resolvedNodes = new WeakMap<AssetStore, WeakMap<Record<string, NodeTypeDef>, WeakMap<object, ResolvedNode>>>();
+
+interface ResolvedNode {
+  source: NodeData;
+  node: NodeData;
+}
+
+// Whether the nodes hold the same values on the same ports
+const sameValues = (a: NodeData, b: NodeData) =>
+  a.type === b.type && a.data === b.data && a.subgraph === b.subgraph &&
+  a.inputs === b.inputs && a.outputs === b.outputs && a.typeArgs === b.typeArgs;
+
+/**
+ * The nodes with the asset references of image ports replaced by the assets'
+ * data, as compute functions expect it. References whose asset is not in
+ * memory are left as they are; `load` them first. Returns the same array when
+ * nothing was replaced.
+ */
+export function resolveAssets(nodes: NodeData[], nodeTypes: Record<string, NodeTypeDef>, store: AssetStore): NodeData[] {
+  let byTypes = resolvedNodes.get(store);
+  if (!byTypes) {
+    byTypes = new WeakMap();
+    resolvedNodes.set(store, byTypes);
+  }
+  let cache = byTypes.get(nodeTypes);
+  if (!cache) {
+    cache = new WeakMap();
+    byTypes.set(nodeTypes, cache);
+  }
+
+  const resolved = nodes.map((n) => {
+    const owner = n.data ?? n.subgraph;
+    if (!owner) return n;
+
+    const cached = cache!.get(owner);
+    if (cached?.source === n) return cached.node;
+    if (cached && sameValues(cached.source, n)) {
+      // Moved or selected: keep the resolved values, take everything else
+      const { data, subgraph } = cached.node;
+      const node = cached.node === cached.source ? n : { ...n, data, ...(subgraph ? { subgraph } : {}) };
+      cache!.set(owner, { source: n, node });
+      return node;
+    }
+
+    let complete = true;
+    const [node] = mapNodeImages([n], nodeTypes, (value) => {
+      if (!isAssetRef(value)) return value;
+      const data = store.get(value);
+      if (data === undefined) complete = false;
+      return data ?? value;
+    });
+    if (complete) cache!.set(owner, { source: n, node });
+    return node;
+  });
+  return resolved.some((n, i) => n !== nodes[i]) ? resolved : nodes;
+}
+
+/**
+ * Moves images stored inline as data URLs in image ports (e.g. in graphs saved
+ * without an asset store) into the store, replacing them with references.
+ */
+export async function internAssets(
+  nodes: NodeData[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  store: AssetStore
+): Promise<NodeData[]> {
+  const inline = new Set<string>();
+  mapNodeImages(nodes, nodeTypes, (value) => {
+    if (value.startsWith("data:image/")) inline.add(value);
+    return value;
+  });
+  if (inline.size === 0) return nodes;
+
+  const refs = new Map<string, string>();
+  for (const data of inline) {
+    refs.set(data, await store.put(data));
+  }
+  return mapNodeImages(nodes, nodeTypes, (value) => refs.get(value) ?? value);
+}
+
+/**
+ * Serializes the graph like `serializeGraph`, bundling the data of the assets
+ * it refers to so that the file can be opened with any asset store.
+ */
+export async function exportGraphBundle(
+  nodes: NodeData[],
+  connections: Connection[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  store: AssetStore
+): Promise<string> {
+  const refs = collectAssetRefs(nodes, nodeTypes);
+  await store.load(refs);
+
+  const assets: Record<string, string> = {};
+  refs.forEach((ref) => {
+    const data = store.get(ref);
+    if (data !== undefined) assets[toId(ref)] = data;
+  });
+
+  const file: SerializedGraphFile = JSON.parse(serializeGraph(nodes, connections));
+  const bundle: SerializedGraphBundle = { ...file, assets };
+  return JSON.stringify(bundle);
+}
+
+/**
+ * Adds the assets bundled in a file written by `exportGraphBundle` to the
+ * store. The graph itself is read with `deserializeGraph` as usual. Files
+ * without bundled assets are ignored.
+ */
+export async function importGraphBundle(json: string, store: AssetStore): Promise<void> {
+  let file: Partial<SerializedGraphBundle>;
+  try {
+    file = JSON.parse(json);
+  } catch (e) {
+    // Reported by deserializeGraph
+    return;
+  }
+  if (!file || typeof file.assets !== "object" || file.assets === null) return;
+
+  for (const data of Object.values(file.assets)) {
+    if (typeof data === "string") await store.put(data);
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { compileGraph } from "./compile";
+import { evaluateGraph } from "./evaluate";
+import { createMapNodeType } from "./subgraph";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  add: {
+    id: "add",
+    inputs: [{ name: "A", type: "number", default: 0 }, { name: "B", type: "number", default: 0 }],
+    outputs: [{ name: "Sum", type: "number" }],
+    compute: ({ A, B }) => ({ Sum: A + B }),
+  },
+  half: {
+    id: "half",
+    inputs: [{ name: "In", type: "number", required: true }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: async ({ In }) => ({ Out: In / 2 }),
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any> = {}): NodeData => ({ id, type, x: 0, y: 0, data });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("compileGraph", () => {
+  const nodes = [node("a", "number", { Value: 2 }), node("b", "number", { Value: 3 }), node("sum", "add")];
+  const connections = [link("a", "Out", "sum", "A"), link("b", "Out", "sum", "B")];
+
+  it("computes the same values as the engine, inputs included", () => {
+    const { run } = compileGraph(nodes, connections, nodeTypes);
+    expect((run() as any).sum).toEqual(evaluateGraph(nodes, connections, nodeTypes).sum);
+    expect((run() as any).sum).toEqual({ A: 2, B: 3, Sum: 5 });
+  });
+
+  it("runs without evaluating generated code", () => {
+    const original = globalThis.Function;
+    globalThis.Function = (() => {
+      throw new EvalError("unsafe-eval");
+    }) as any;
+    try {
+      const { run } = compileGraph(nodes, connections, nodeTypes);
+      expect((run() as any).sum.Sum).toBe(5);
+    } finally {
+      globalThis.Function = original;
+    }
+  });
+
+  it("emits source that behaves like run", () => {
+    const map = createMapNodeType({ id: "map", itemType: "number" });
+    const types = { ...nodeTypes, map };
+    const graph = [
+      node("a", "number", { Value: 2 }),
+      node("sum", "add", { B: 1 }),
+      { ...node("m", "map", { Items: [1, 2] }), subgraph: map.subgraph },
+    ];
+    const links = [link("a", "Out", "sum", "A")];
+    const { run, source } = compileGraph(graph, links, types);
+    const factory = new Function(`return ${source}`)();
+    expect(factory(types)()).toEqual(run());
+    expect((run() as any).m.Results).toEqual([1, 2]);
+  });
+
+  it("rejects cycles without a feedback node", () => {
+    expect(() => compileGraph(
+      [node("x", "add"), node("y", "add"), node("z", "add")],
+      [link("x", "Sum", "y", "A"), link("y", "Sum", "x", "A"), link("y", "Sum", "z", "A")],
+      nodeTypes
+    )).toThrow(/cycle without a feedback node: "add" \(x\), "add" \(y\)$/);
+  });
+
+  it("feeds feedback nodes' values into the next run", () => {
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      delay: { ...nodeTypes.number, id: "delay", feedback: true },
+    };
+    const { run } = compileGraph(
+      [node("d", "delay", { Out: 0 }), node("sum", "add", { B: 1 }), node("o", "number")],
+      [link("d", "Out", "sum", "A"), link("sum", "Sum", "d", "Value"), link("sum", "Sum", "o", "Value")],
+      types
+    );
+    expect((run() as any).o.Out).toBe(1);
+    expect((run() as any).o.Out).toBe(2);
+  });
+
+  it("takes graph inputs for unconnected ports", () => {
+    const { run } = compileGraph([node("sum", "add", { A: 1 })], [], nodeTypes);
+    expect((run({ sum: { B: 10 } }) as any).sum.Sum).toBe(11);
+    expect((run() as any).sum.Sum).toBe(1);
+  });
+
+  it("awaits compute functions when compiled as async", async () => {
+    const { run } = compileGraph(
+      [node("a", "number", { Value: 8 }), node("h", "half")],
+      [link("a", "Out", "h", "In")],
+      nodeTypes,
+      { async: true }
+    );
+    expect((await run()).h.Out).toBe(4);
+  });
+
+  it("throws for missing required inputs", () => {
+    const { run } = compileGraph([node("h", "half")], [], nodeTypes, { async: true });
+    return expect(run()).rejects.toThrow(/required/);
+  });
+
+  it("emits standalone source", () => {
+    const { source } = compileGraph(nodes, connections, nodeTypes);
+    expect(source).toContain("nodeTypes");
+  });
+});
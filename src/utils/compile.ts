@@ -0,0 +1,526 @@
+import { NodeData, NodeTypeDef, Connection, Subgraph, PortRef, ComputeContext } from "../components/Node/node";
+import { GraphResults } from "./evaluate";
+import { findCycle, topologicalSort } from "./topology";
+import { getEnumOptions, isExecConnection, isExecPort } from "./ports";
+import { MAP_INPUT_TYPE, MAP_OUTPUT_TYPE, getNodeTypeDef } from "./nodeTypes";
+import { TypeConversion, getConnectionConversion } from "./conversions";
+
+/**
+ * Values overriding unconnected inputs, keyed by node id and port name.
+ * Inputs that are not given fall back to the node's stored `data`.
+ */
+export type GraphInputs = Record<string, Record<string, any>>;
+
+export interface CompileOptions {
+  async?: boolean; // await every compute function; `run` then returns a Promise
+  conversions?: TypeConversion[]; // applied to values crossing connections between different port types
+}
+
+export interface CompiledGraph {
+  /**
+   * Standalone source of a factory function. Calling the factory with the node
+   * type registry (and the type conversions, if any) returns the compiled
+   * graph function.
+   */
+  source: string;
+  /**
+   * Runs the graph with the given inputs and returns the outputs of all sink
+   * nodes (nodes whose outputs are not connected to anything).
+   */
+  run: (inputs?: GraphInputs) => GraphResults | Promise<GraphResults>;
+}
+
+/**
+ * Compiles a graph into a dependency-ordered JavaScript function that calls the
+ * same `compute` functions as the built-in engine, without Preact or the DOM.
+ * Inputs resolve like in the engine: connected inputs take the upstream output
+ * (or the upstream node's data when it has no compute function), unconnected
+ * inputs take the given graph inputs, the node's data or the port's default.
+ * Like the engine's results, each node's values hold its inputs together with
+ * its outputs. Missing required inputs and values outside an enum's options
+ * throw. Feedback nodes keep their outputs between runs, so their consumers
+ * read the previous run's value; other cycles cannot be compiled and throw
+ * right away. Exec connections are ignored; control flow is the job of
+ * `runExecution`. Group nodes become nested functions called with the group's
+ * inputs, map nodes functions looping over their items.
+ *
+ * `run` interprets the same plan that `source` spells out, so it works under
+ * a Content Security Policy that forbids `eval`.
+ */
+export function compileGraph(
+  nodes: NodeData[],
+  connections: Connection[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  options: CompileOptions = {}
+): CompiledGraph {
+  const conversions = options.conversions ?? [];
+  const planner: Planner = { nodeTypes, conversions, groups: [] };
+
+  const { steps, vars } = planGraph(
+    planner,
+    nodes,
+    connections,
+    "",
+    (node, port, fallback) => ({ kind: "graphInput", nodeId: node.id, port, fallback }),
+    false
+  );
+
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const hasOutgoing = new Set(
+    connections
+      .filter((c) => nodesById.has(c.from.nodeId) && nodesById.has(c.to.nodeId) && !isExecConnection(c, nodesById, nodeTypes))
+      .map((c) => c.from.nodeId)
+  );
+  const plan: Plan = {
+    groups: planner.groups,
+    steps,
+    sinks: nodes.filter((n) => !hasOutgoing.has(n.id)).map((n) => [n.id, vars.get(n.id)!]),
+  };
+
+  return {
+    source: emitSource(plan, !!options.async),
+    run: interpret(plan, nodeTypes, conversions, !!options.async),
+  };
+}
+
+/**
+ * Expression computing one input value.
+ */
+type Expr =
+  | { kind: "literal"; value: any }
+  | { kind: "graphInput"; nodeId: string; port: string; fallback: any } // unconnected input overridable by `run`'s inputs
+  | { kind: "groupInput"; name: string; fallback: any } // inner port bound to a group input
+  | { kind: "read"; source: string; port: string; fallback: any } // value of a node computed earlier in the run
+  | { kind: "previous"; key: string; port: string; fallback: any } // value of a feedback node from the last run
+  | { kind: "convert"; from: string; to: string; value: Expr }
+  | { kind: "list"; items: Expr[] }
+  | { kind: "check"; value: Expr; port: string; required: boolean; options?: any[]; multi: boolean };
+
+type Args = [string, Expr][];
+
+/**
+ * Statement of a plan, each storing the values of one node in `target`
+ * (except `remember`, which keeps a feedback node's values for the next run).
+ */
+type Step =
+  | { kind: "data"; target: string; data: Record<string, any> } // node without compute function
+  | { kind: "item"; target: string; data: Record<string, any> } // Iteration node inside a loop body
+  | { kind: "collect"; target: string; args: Args } // Collect node
+  | { kind: "compute"; target: string; args: Args; node: NodeData }
+  | { kind: "call"; target: string; args: Args; group: number }
+  | { kind: "remember"; key: string; source: string };
+
+interface GroupPlan {
+  name: string;
+  iterate: boolean;
+  steps: Step[];
+  outputs: Args; // for loops, the values collected into lists per iteration
+}
+
+interface Plan {
+  groups: GroupPlan[];
+  steps: Step[];
+  sinks: [string, string][]; // node id and variable of each sink node
+}
+
+interface Planner {
+  nodeTypes: Record<string, NodeTypeDef>;
+  conversions: TypeConversion[];
+  groups: GroupPlan[];
+}
+
+/**
+ * Plans one graph level and returns its steps and the variable holding the
+ * values of each node. `unconnected` returns the expression of an unconnected
+ * input given its stored value. Inside a loop body (`iterating`), Iteration
+ * nodes read the current item and index.
+ */
+function planGraph(
+  planner: Planner,
+  nodes: NodeData[],
+  connections: Connection[],
+  scope: string,
+  unconnected: (node: NodeData, port: string, fallback: any) => Expr,
+  iterating: boolean
+): { steps: Step[]; vars: Map<string, string> } {
+  const { nodeTypes } = planner;
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const vars = new Map(nodes.map((n, i) => [n.id, `${scope}v${i}`]));
+  const isFeedback = (id: string) => !!getNodeTypeDef(nodesById.get(id)!, nodeTypes)?.feedback;
+  const steps: Step[] = [];
+
+  const valid = connections.filter(
+    (c) => nodesById.has(c.from.nodeId) && nodesById.has(c.to.nodeId) &&
+      !isExecConnection(c, nodesById, nodeTypes)
+  );
+  const forward = valid.filter((c) => !isFeedback(c.from.nodeId));
+
+  const cycle = findCycle(nodes, forward);
+  if (cycle.length > 0) {
+    const names = cycle.map((n) => `"${getNodeTypeDef(n, nodeTypes)?.title ?? n.type}" (${n.id})`).join(", ");
+    throw new Error(`Cannot compile a cycle without a feedback node: ${names}`);
+  }
+
+  topologicalSort(nodes, forward).forEach((node) => {
+    const target = vars.get(node.id)!;
+    const typeDef = getNodeTypeDef(node, nodeTypes);
+
+    if (iterating && node.type === MAP_INPUT_TYPE) {
+      steps.push({ kind: "item", target, data: node.data ?? {} });
+      return;
+    }
+
+    if (!typeDef || (!typeDef.compute && !node.subgraph)) {
+      // Nodes without compute functions expose their stored data
+      steps.push({ kind: "data", target, data: node.data ?? {} });
+      return;
+    }
+
+    const valueOf = (connection: Connection): Expr => {
+      const source = connection.from.nodeId;
+      const fallback = nodesById.get(source)!.data?.[connection.from.port];
+      const value: Expr = isFeedback(source)
+        ? { kind: "previous", key: scope + source, port: connection.from.port, fallback }
+        : { kind: "read", source: vars.get(source)!, port: connection.from.port, fallback };
+      const conversion = getConnectionConversion(connection, nodesById, nodeTypes, planner.conversions);
+      return conversion?.convert ? { kind: "convert", from: conversion.from, to: conversion.to, value } : value;
+    };
+
+    const args: Args = typeDef.inputs.filter((port) => !isExecPort(port)).map((port) => {
+      const connected = valid.filter((c) => c.to.nodeId === node.id && c.to.port === port.name);
+      let value: Expr;
+      if (connected.length === 0) {
+        value = unconnected(node, port.name, node.data?.[port.name] ?? port.default ?? (port.multi ? [] : undefined));
+      } else {
+        // Multi inputs take the values of all their connections, in order
+        value = port.multi ? { kind: "list", items: connected.map(valueOf) } : valueOf(connected[0]);
+      }
+      if (port.required || port.options) {
+        const options = port.options && getEnumOptions(port).map((option) => option.value);
+        value = { kind: "check", value, port: port.name, required: !!port.required, options, multi: !!port.multi };
+      }
+      return [port.name, value];
+    });
+
+    if (node.type === MAP_OUTPUT_TYPE) {
+      // Collect nodes only hold the value of their input
+      steps.push({ kind: "collect", target, args });
+    } else if (node.subgraph) {
+      steps.push({ kind: "call", target, args, group: planGroup(planner, node.subgraph) });
+    } else {
+      const snapshot = { id: node.id, type: node.type, x: node.x, y: node.y, data: node.data ?? {} };
+      steps.push({ kind: "compute", target, args, node: snapshot });
+    }
+  });
+
+  nodes.forEach((node) => {
+    if (isFeedback(node.id)) {
+      steps.push({ kind: "remember", key: scope + node.id, source: vars.get(node.id)! });
+    }
+  });
+
+  return { steps, vars };
+}
+
+/**
+ * Plans the function computing a group or map node and returns its index.
+ * Group inputs override the inner ports they are bound to. The body of a map
+ * node runs once per element of the "Items" input, collecting the Collect
+ * node's value and each exposed output into lists.
+ */
+function planGroup(planner: Planner, subgraph: Subgraph): number {
+  const index = planner.groups.length;
+  const name = `group${index}`;
+  const group: GroupPlan = { name, iterate: !!subgraph.iterate, steps: [], outputs: [] };
+  planner.groups.push(group);
+
+  const { steps, vars } = planGraph(planner, subgraph.nodes, subgraph.connections, `${name}_`, (node, port, fallback) => {
+    const input = subgraph.inputs.find((i) => i.targets.some((t) => t.nodeId === node.id && t.port === port));
+    return input ? { kind: "groupInput", name: input.name, fallback } : { kind: "literal", value: fallback };
+  }, group.iterate);
+
+  const innerById = new Map(subgraph.nodes.map((n) => [n.id, n]));
+  const read = ({ nodeId, port }: PortRef): Expr => {
+    const fallback = innerById.get(nodeId)?.data?.[port];
+    const source = vars.get(nodeId);
+    return source ? { kind: "read", source, port, fallback } : { kind: "literal", value: fallback };
+  };
+
+  group.steps = steps;
+  if (group.iterate) {
+    const collector = subgraph.nodes.find((n) => n.type === MAP_OUTPUT_TYPE);
+    group.outputs = [
+      ["Results", collector ? read({ nodeId: collector.id, port: "Result" }) : { kind: "literal", value: undefined }],
+      ...subgraph.outputs.map((o): [string, Expr] => [o.name, read(o.source)]),
+    ];
+  } else {
+    group.outputs = subgraph.outputs.map((o) => [o.name, read(o.source)]);
+  }
+  return index;
+}
+
+const literal = (value: any): string =>
+  value === undefined ? "undefined" : JSON.stringify(value);
+
+/**
+ * Spells a plan out as the source of a standalone factory function.
+ */
+function emitSource(plan: Plan, async: boolean): string {
+  const awaitPrefix = async ? "await " : "";
+  const asyncPrefix = async ? "async " : "";
+
+  const expr = (e: Expr): string => {
+    switch (e.kind) {
+      case "literal":
+        return literal(e.value);
+      case "graphInput":
+        return `input(inputs, ${literal(e.nodeId)}, ${literal(e.port)}, ${literal(e.fallback)})`;
+      case "groupInput":
+        return `pick(inputs, ${literal(e.name)}, ${literal(e.fallback)})`;
+      case "read":
+        return `pick(${e.source}, ${literal(e.port)}, ${literal(e.fallback)})`;
+      case "previous":
+        return `pick(previous[${literal(e.key)}], ${literal(e.port)}, ${literal(e.fallback)})`;
+      case "convert":
+        return `convert(${literal(e.from)}, ${literal(e.to)}, ${expr(e.value)})`;
+      case "list":
+        return `[${e.items.map(expr).join(", ")}]`;
+      case "check":
+        return `check(${expr(e.value)}, ${literal(e.port)}, ${e.required}, ${literal(e.options)}, ${e.multi})`;
+    }
+  };
+  const object = (args: Args) => `{ ${args.map(([name, e]) => `${literal(name)}: ${expr(e)}`).join(", ")} }`;
+
+  const statements = (steps: Step[], indent: string): string[] => steps.flatMap((step) => {
+    switch (step.kind) {
+      case "data":
+        return [`${indent}const ${step.target} = ${literal(step.data)};`];
+      case "item":
+        return [`${indent}const ${step.target} = Object.assign({}, ${literal(step.data)}, { Item: item, Index: index });`];
+      case "collect":
+        return [`${indent}const ${step.target} = ${object(step.args)};`];
+      case "compute":
+      case "call": {
+        const inputs = `${step.target}_in`;
+        const call = step.kind === "call"
+          ? `${plan.groups[step.group].name}(${inputs})`
+          : `nodeTypes[${literal(step.node.type)}].compute(${inputs}, ${literal(step.node)}, context)`;
+        return [
+          `${indent}const ${inputs} = ${object(step.args)};`,
+          `${indent}const ${step.target} = Object.assign({}, ${inputs}, (${awaitPrefix}${call}) || {});`,
+        ];
+      }
+      case "remember":
+        return [`${indent}previous[${literal(step.key)}] = ${step.source};`];
+    }
+  });
+
+  const groups = plan.groups.flatMap((group) => {
+    if (!group.iterate) {
+      return [
+        `  const ${group.name} = ${asyncPrefix}function (inputs) {`,
+        ...statements(group.steps, "    "),
+        `    return ${object(group.outputs)};`,
+        `  };`,
+      ];
+    }
+    return [
+      `  const ${group.name} = ${asyncPrefix}function (inputs) {`,
+      `    const items = Array.isArray(inputs.Items) ? inputs.Items : [];`,
+      ...group.outputs.map((_, i) => `    const list${i} = items.map(() => undefined);`),
+      `    for (let index = 0; index < items.length; index++) {`,
+      `      const item = items[index];`,
+      `      try {`,
+      ...statements(group.steps, "        "),
+      ...group.outputs.map(([, e], i) => `        list${i}[index] = ${expr(e)};`),
+      `      } catch (e) {}`,
+      `    }`,
+      `    return { ${group.outputs.map(([name], i) => `${literal(name)}: list${i}`).concat("Count: items.length").join(", ")} };`,
+      `  };`,
+    ];
+  });
+
+  return [
+    `function compiledGraph(nodeTypes, conversions) {`,
+    `  "use strict";`,
+    `  conversions = conversions || [];`,
+    `  const context = { signal: typeof AbortController !== "undefined" ? new AbortController().signal : undefined };`,
+    `  const previous = {};`,
+    `  const input = (inputs, id, port, fallback) => inputs[id] && inputs[id][port] !== undefined ? inputs[id][port] : fallback;`,
+    `  const pick = (outputs, port, fallback) => outputs && outputs[port] !== undefined ? outputs[port] : fallback;`,
+    `  const check = (value, port, required, options, multi) => {`,
+    `    if (required && value === undefined) throw new Error("Input \\"" + port + "\\" is required");`,
+    `    const values = multi && Array.isArray(value) ? value : [value];`,
+    `    if (options && values.some((v) => v !== undefined && options.indexOf(v) < 0)) throw new Error("Input \\"" + port + "\\" does not accept " + JSON.stringify(value));`,
+    `    return value;`,
+    `  };`,
+    `  const convert = (from, to, value) => {`,
+    `    const conversion = conversions.find((c) => c.from === from && c.to === to);`,
+    `    return conversion && conversion.convert && value !== undefined ? conversion.convert(value) : value;`,
+    `  };`,
+    ...groups,
+    `  return ${asyncPrefix}function run(inputs) {`,
+    `    inputs = inputs || {};`,
+    ...statements(plan.steps, "    "),
+    `    return { ${plan.sinks.map(([id, v]) => `${literal(id)}: ${v}`).join(", ")} };`,
+    `  };`,
+    `}`,
+  ].join("\n");
+}
+
+/**
+ * Variables of one running graph level (or loop iteration).
+ */
+interface Frame {
+  vars: Record<string, any>;
+  inputs: Record<string, any>; // graph inputs at the top level, group inputs inside groups
+  item?: any;
+  index?: number;
+}
+
+/**
+ * Builds `run` from a plan without generating code. Steps run in generators
+ * that yield the result of every compute call, so the same walk serves both
+ * modes: synchronous runs pass results straight back, asynchronous ones await
+ * them first.
+ */
+function interpret(
+  plan: Plan,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[],
+  async: boolean
+): CompiledGraph["run"] {
+  const context = { signal: typeof AbortController !== "undefined" ? new AbortController().signal : undefined } as ComputeContext;
+  const previous: Record<string, any> = {};
+  const pick = (values: any, port: string, fallback: any) =>
+    values && values[port] !== undefined ? values[port] : fallback;
+
+  const evaluate = (e: Expr, frame: Frame): any => {
+    switch (e.kind) {
+      case "literal":
+        return e.value;
+      case "graphInput":
+        return pick(frame.inputs[e.nodeId], e.port, e.fallback);
+      case "groupInput":
+        return pick(frame.inputs, e.name, e.fallback);
+      case "read":
+        return pick(frame.vars[e.source], e.port, e.fallback);
+      case "previous":
+        return pick(previous[e.key], e.port, e.fallback);
+      case "convert": {
+        const value = evaluate(e.value, frame);
+        const conversion = conversions.find((c) => c.from === e.from && c.to === e.to);
+        return conversion?.convert && value !== undefined ? conversion.convert(value) : value;
+      }
+      case "list":
+        return e.items.map((item) => evaluate(item, frame));
+      case "check": {
+        const value = evaluate(e.value, frame);
+        if (e.required && value === undefined) throw new Error(`Input "${e.port}" is required`);
+        const values = e.multi && Array.isArray(value) ? value : [value];
+        if (e.options && values.some((v) => v !== undefined && !e.options!.includes(v))) {
+          throw new Error(`Input "${e.port}" does not accept ${JSON.stringify(value)}`);
+        }
+        return value;
+      }
+    }
+  };
+  const object = (args: Args, frame: Frame) => {
+    const values: Record<string, any> = {};
+    args.forEach(([name, e]) => {
+      values[name] = evaluate(e, frame);
+    });
+    return values;
+  };
+
+  function* runSteps(steps: Step[], frame: Frame): Generator<any, void, any> {
+    for (const step of steps) {
+      switch (step.kind) {
+        case "data":
+          frame.vars[step.target] = step.data;
+          break;
+        case "item":
+          frame.vars[step.target] = { ...step.data, Item: frame.item, Index: frame.index };
+          break;
+        case "collect":
+          frame.vars[step.target] = object(step.args, frame);
+          break;
+        case "compute": {
+          const inputs = object(step.args, frame);
+          const outputs = yield nodeTypes[step.node.type].compute!(inputs, step.node, context);
+          frame.vars[step.target] = { ...inputs, ...(outputs || {}) };
+          break;
+        }
+        case "call": {
+          const inputs = object(step.args, frame);
+          const outputs = yield* runGroup(plan.groups[step.group], inputs);
+          frame.vars[step.target] = { ...inputs, ...outputs };
+          break;
+        }
+        case "remember":
+          previous[step.key] = frame.vars[step.source];
+          break;
+      }
+    }
+  }
+
+  function* runGroup(group: GroupPlan, inputs: Record<string, any>): Generator<any, Record<string, any>, any> {
+    if (!group.iterate) {
+      const frame: Frame = { vars: {}, inputs };
+      yield* runSteps(group.steps, frame);
+      return object(group.outputs, frame);
+    }
+
+    const items: any[] = Array.isArray(inputs.Items) ? inputs.Items : [];
+    const lists = group.outputs.map(() => items.map((): any => undefined));
+    for (let index = 0; index < items.length; index++) {
+      const frame: Frame = { vars: {}, inputs, item: items[index], index };
+      // Like in the engine, a failing iteration yields undefined
+      try {
+        yield* runSteps(group.steps, frame);
+        group.outputs.forEach(([, e], i) => {
+          lists[i][index] = evaluate(e, frame);
+        });
+      } catch (e) {}
+    }
+    const values: Record<string, any> = { Count: items.length };
+    group.outputs.forEach(([name], i) => {
+      values[name] = lists[i];
+    });
+    return values;
+  }
+
+  function* runGraph(inputs: GraphInputs): Generator<any, GraphResults, any> {
+    const frame: Frame = { vars: {}, inputs };
+    yield* runSteps(plan.steps, frame);
+    const results: GraphResults = {};
+    plan.sinks.forEach(([id, v]) => {
+      results[id] = frame.vars[v];
+    });
+    return results;
+  }
+
+  if (!async) {
+    return (inputs = {}) => {
+      const steps = runGraph(inputs);
+      let step = steps.next();
+      while (!step.done) step = steps.next(step.value);
+      return step.value;
+    };
+  }
+  return async (inputs = {}) => {
+    const steps = runGraph(inputs);
+    let step = steps.next();
+    while (!step.done) {
+      let value: any;
+      try {
+        value = await step.value;
+      } catch (e) {
+        step = steps.throw(e);
+        continue;
+      }
+      step = steps.next(value);
+    }
+    return step.value;
+  };
+}
@@ -0,0 +1,84 @@
+import { NodeData, NodeTypeDef, Connection } from "../components/Node/node";
+import { getNodeTypeDef } from "./nodeTypes";
+
+/**
+ * Declares that outputs of type `from` may feed inputs of type `to`. `convert`
+ * transforms values on the way; without it they pass through unchanged.
+ */
+export interface TypeConversion {
+  from: string;
+  to: string;
+  convert?: (value: any) => any;
+}
+
+/**
+ * Port type that connects to every other type without conversion. Reserved,
+ * so that an app's own port type named e.g. "any" keeps connecting only to
+ * ports of that type.
+ */
+export const ANY_TYPE = "*";
+
+// Lookup tables are cached so that the lists passed in can stay plain arrays
+const lookups = new WeakMap<TypeConversion[], Map<string, TypeConversion>>();
+
+/**
+ * The registered conversion from one port type to another, if any. Equal types
+ * and the wildcard `ANY_TYPE` need none.
+ */
+export function findConversion(
+  from: string,
+  to: string,
+  conversions: TypeConversion[]
+): TypeConversion | undefined {
+  if (from === to || from === ANY_TYPE || to === ANY_TYPE) return undefined;
+
+  let lookup = lookups.get(conversions);
+  if (!lookup) {
+    lookup = new Map(conversions.map((c) => [`${c.from}->${c.to}`, c]));
+    lookups.set(conversions, lookup);
+  }
+  return lookup.get(`${from}->${to}`);
+}
+
+/**
+ * Whether an output of type `from` may feed an input of type `to`.
+ */
+export function areTypesCompatible(from: string, to: string, conversions: TypeConversion[]): boolean {
+  return from === to || from === ANY_TYPE || to === ANY_TYPE || !!findConversion(from, to, conversions);
+}
+
+/**
+ * The conversion applied to values travelling along a connection, if its
+ * ports have different types.
+ */
+export function getConnectionConversion(
+  connection: Connection,
+  nodesById: Map<string, NodeData>,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[]
+): TypeConversion | undefined {
+  if (conversions.length === 0) return undefined;
+
+  const source = nodesById.get(connection.from.nodeId);
+  const target = nodesById.get(connection.to.nodeId);
+  const from = source && getNodeTypeDef(source, nodeTypes)?.outputs.find((p) => p.name === connection.from.port);
+  const to = target && getNodeTypeDef(target, nodeTypes)?.inputs.find((p) => p.name === connection.to.port);
+  return from && to ? findConversion(from.type, to.type, conversions) : undefined;
+}
+
+/**
+ * Returns a function converting the values carried by connections of the
+ * given graph, for `resolveInputs`.
+ */
+export function createConverter(
+  nodesById: Map<string, NodeData>,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[]
+): ((connection: Connection, value: any) => any) | undefined {
+  if (conversions.length === 0) return undefined;
+
+  return (connection, value) => {
+    const conversion = getConnectionConversion(connection, nodesById, nodeTypes, conversions);
+    return conversion?.convert && value !== undefined ? conversion.convert(value) : value;
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { NodeData, NodeTypeDef } from "../components/Node/node";
+import { deserializeGraph, readGraph } from "./deserialize";
+import { serializeGraph } from "./serialize";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+  },
+};
+
+const nodes: NodeData[] = [
+  { id: "a", type: "number", x: 10, y: 20, data: { Value: 1 } },
+  { id: "b", type: "number", x: 30, y: 40, data: { Value: 2 } },
+];
+const connections = [{ from: { nodeId: "a", port: "Out" }, to: { nodeId: "b", port: "Value" } }];
+
+describe("deserializeGraph", () => {
+  it("reads back what serializeGraph wrote", () => {
+    const state = deserializeGraph(serializeGraph(nodes, connections));
+    expect(state.connections).toEqual(connections);
+    expect(state.nodes.map(({ id, type, x, y, data }) => ({ id, type, x, y, data }))).toEqual(nodes);
+  });
+
+  it("throws for JSON that is not a graph without logging", () => {
+    const error = vi.spyOn(console, "error");
+    expect(() => deserializeGraph("{\"nodes\": 1}")).toThrow();
+    expect(() => deserializeGraph("not json")).toThrow();
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it("reports problems instead of throwing when given the node types", () => {
+    expect(deserializeGraph("not json", nodeTypes)).toEqual(readGraph("not json", nodeTypes));
+    const report = deserializeGraph(serializeGraph(nodes, connections), nodeTypes);
+    expect(report.problems).toEqual([]);
+    expect(report.graph.connections).toEqual(connections);
+  });
+});
+
+describe("readGraph", () => {
+  it("reports problems instead of throwing", () => {
+    const report = readGraph("not json", nodeTypes);
+    expect(report.graph).toEqual({ nodes: [], connections: [] });
+    expect(report.problems[0].severity).toBe("fatal");
+  });
+
+  it("reads valid files without problems", () => {
+    const report = readGraph(serializeGraph(nodes, connections), nodeTypes);
+    expect(report.problems).toEqual([]);
+    expect(report.graph.connections).toEqual(connections);
+  });
+});
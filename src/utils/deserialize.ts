@@ -1,5 +1,9 @@
-import { NodeData, Connection } from "../components/Node/node";
-import { SerializedGraph } from "./serialize";
+import { NodeData, NodeTypeDef, Connection, Subgraph } from "../components/Node/node";
+import { SerializedGraph, SerializedNode, SerializedPorts, SerializedSubgraph } from "./serialize";
+import { migrateGraphFile } from "./migrations";
+import { GraphProblem, checkSerializedGraph, repairGraph } from "./repair";
+import { upgradeGraph } from "./upgrades";
+import { TypeConversion } from "./conversions";
 
 export interface GraphState {
   nodes: NodeData[];
@@ -7,54 +11,159 @@ export interface GraphState {
 }
 
 /**
- * Deserializes a JSON string back into graph state.
+ * Result of reading a graph with its node types: the graph, repaired where
+ * needed (empty when a fatal problem leaves nothing to load), and what was
+ * wrong with it.
  */
-export function deserializeGraph(json: string): GraphState {
+export interface DeserializeReport {
+  graph: GraphState;
+  problems: GraphProblem[];
+}
+
+/**
+ * Deserializes a JSON string back into graph state, upgrading files written in
+ * older formats. Throws when the JSON is not a graph.
+ *
+ * Given the node types, reads the graph like `readGraph` instead: problems
+ * are reported rather than thrown, and the graph is repaired to match the
+ * node types.
+ */
+export function deserializeGraph(json: string): GraphState;
+export function deserializeGraph(
+  json: string,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions?: TypeConversion[]
+): DeserializeReport;
+export function deserializeGraph(
+  json: string,
+  nodeTypes?: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[] = []
+): GraphState | DeserializeReport {
+  if (nodeTypes) {
+    return readGraph(json, nodeTypes, conversions);
+  }
+
+  const state: SerializedGraph = migrateGraphFile(JSON.parse(json));
+  // Basic structure check
+  if (!state || !Array.isArray(state) || state.length !== 2) {
+    throw new Error("Invalid graph state format");
+  }
+
+  return {
+    nodes: deserializeNodes(state[0]),
+    connections: deserializeConnections(state[1]),
+  };
+}
+
+/**
+ * Same as `deserializeGraph(json, nodeTypes, conversions)`. Reads a graph
+ * file, upgrades nodes saved with older versions of their types (see
+ * `upgradeGraph`) and checks every node, port, connection and stored value
+ * against the node types (and the conversions allowing ports of different
+ * types to connect). Never throws: returns a report listing the problems
+ * found, each either fatal (unreadable JSON, unsupported format version) or
+ * repaired, together with the repaired graph (see `repairGraph`).
+ */
+export function readGraph(
+  json: string,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[] = []
+): DeserializeReport {
+  const problems: GraphProblem[] = [];
+  const fatal = (message: string): DeserializeReport => ({
+    graph: { nodes: [], connections: [] },
+    problems: [...problems, { severity: "fatal", message }],
+  });
+  const report = (message: string, nodeId?: string) => {
+    problems.push({ severity: "repaired", message, ...(nodeId ? { nodeId } : {}) });
+  };
+
+  let file: unknown;
   try {
-    const state: SerializedGraph = JSON.parse(json);
-    // Basic structure check
-    if (!state || !Array.isArray(state) || state.length !== 2) {
-      throw new Error("Invalid graph state format");
-    }
+    file = JSON.parse(json);
+  } catch (e) {
+    return fatal(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
 
-    const nodes: NodeData[] = state[0].map((n) => {
-      const node: NodeData = {
-        id: n[0] as string,
-        type: n[1] as string,
-        x: n[2] as number,
-        y: n[3] as number,
-      };
-
-      if (n[4]) {
-        node.data = n[4] as Record<string, any>;
-      }
-      if (n[5]) {
-        node.width = n[5] as number;
-      }
-      if (n[6]) {
-        node.height = n[6] as number;
-      }
-
-      return node;
-    });
-
-    const connections: Connection[] = state[1].map((c) => ({
-      from: {
-        nodeId: c[0] as string,
-        port: c[1] as string,
-      },
-      to: {
-        nodeId: c[2] as string,
-        port: c[3] as string,
-      },
-    }));
-
-    return {
-      nodes,
-      connections,
-    };
+  let state: SerializedGraph | null;
+  try {
+    state = checkSerializedGraph(migrateGraphFile(file), report);
   } catch (e) {
-    console.error("Failed to deserialize graph:", e);
-    throw e;
+    return fatal(e instanceof Error ? e.message : String(e));
+  }
+  if (!state) {
+    return fatal("Invalid graph state format");
+  }
+
+  const nodes = deserializeNodes(state[0]);
+  const connections = deserializeConnections(state[1]);
+  const graph = repairGraph(upgradeGraph({ nodes, connections }, nodeTypes, report), nodeTypes, report, conversions);
+  return { graph, problems };
+}
+
+function deserializeNodes(serialized: SerializedNode[]): NodeData[] {
+  return serialized.map((n) => {
+    const node: NodeData = {
+      id: n[0] as string,
+      type: n[1] as string,
+      x: n[2] as number,
+      y: n[3] as number,
+    };
+
+    if (n[4]) {
+      node.data = n[4] as Record<string, any>;
+    }
+    if (n[5]) {
+      node.width = n[5] as number;
+    }
+    if (n[6]) {
+      node.height = n[6] as number;
+    }
+    if (n[7]) {
+      node.subgraph = deserializeSubgraph(n[7] as SerializedSubgraph);
+    }
+    if (n[8]) {
+      const [inputs, outputs] = n[8] as SerializedPorts;
+      if (inputs.length > 0) node.inputs = inputs.map(([name, type]) => ({ name, type }));
+      if (outputs.length > 0) node.outputs = outputs.map(([name, type]) => ({ name, type }));
+    }
+    // Written when above 1; in memory a missing version means the current one
+    node.version = (n[9] as number) || 1;
+
+    return node;
+  });
+}
+
+function deserializeConnections(serialized: (string | number)[][]): Connection[] {
+  return serialized.map((c) => ({
+    from: {
+      nodeId: c[0] as string,
+      port: c[1] as string,
+    },
+    to: {
+      nodeId: c[2] as string,
+      port: c[3] as string,
+    },
+  }));
+}
+
+function deserializeSubgraph(serialized: SerializedSubgraph): Subgraph {
+  const [nodes, connections, inputs, outputs, title, iterate] = serialized;
+  const subgraph: Subgraph = {
+    nodes: deserializeNodes(nodes),
+    connections: deserializeConnections(connections),
+    inputs: inputs.map(([name, type, targets]) => ({
+      name,
+      type,
+      targets: targets.map(([nodeId, port]) => ({ nodeId, port })),
+    })),
+    outputs: outputs.map(([name, type, nodeId, port]) => ({ name, type, source: { nodeId, port } })),
+  };
+  if (title) {
+    subgraph.title = title;
+  }
+  if (iterate) {
+    subgraph.iterate = true;
   }
+  return subgraph;
 }
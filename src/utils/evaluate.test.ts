@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { GraphEvaluator, evaluateGraph } from "./evaluate";
+import { createMapNodeType } from "./subgraph";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  double: {
+    id: "double",
+    inputs: [{ name: "In", type: "number", required: true }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ In }) => ({ Out: In * 2 }),
+  },
+  sum: {
+    id: "sum",
+    inputs: [{ name: "Values", type: "number", multi: true }],
+    outputs: [{ name: "Sum", type: "number" }],
+    compute: ({ Values }) => ({ Sum: Values.reduce((a: number, b: number) => a + b, 0) }),
+  },
+  fail: {
+    id: "fail",
+    inputs: [{ name: "In", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: () => {
+      throw new Error("broken");
+    },
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any> = {}): NodeData => ({ id, type, x: 0, y: 0, data });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("GraphEvaluator", () => {
+  it("computes nodes in dependency order and merges inputs into results", () => {
+    const results = evaluateGraph(
+      [node("d", "double"), node("n", "number", { Value: 3 })],
+      [link("n", "Out", "d", "In")],
+      nodeTypes
+    );
+    expect(results.d).toEqual({ In: 3, Out: 6 });
+  });
+
+  it("feeds multi inputs in connection order", () => {
+    const results = evaluateGraph(
+      [node("a", "number", { Value: 1 }), node("b", "number", { Value: 2 }), node("s", "sum")],
+      [link("a", "Out", "s", "Values"), link("b", "Out", "s", "Values")],
+      nodeTypes
+    );
+    expect(results.s.Values).toEqual([1, 2]);
+    expect(results.s.Sum).toBe(3);
+  });
+
+  it("reports failing nodes and missing required inputs", () => {
+    const evaluator = new GraphEvaluator(nodeTypes);
+    evaluator.update([node("f", "fail"), node("d", "double")], []);
+    const states = evaluator.getNodeStates();
+    expect(states.f).toMatchObject({ status: "error", error: "broken" });
+    expect(states.d).toMatchObject({ status: "error", error: 'Input "In" is required' });
+  });
+
+  it("only recomputes dirty nodes", () => {
+    const compute = vi.fn(({ In }) => ({ Out: In * 2 }));
+    const types = { ...nodeTypes, double: { ...nodeTypes.double, compute } };
+    const evaluator = new GraphEvaluator(types);
+    const a = node("a", "number", { Value: 1 });
+    const b = node("b", "number", { Value: 5 });
+    const d = node("d", "double");
+    const connections = [link("a", "Out", "d", "In")];
+
+    evaluator.update([a, b, d], connections);
+    evaluator.update([a, { ...b, data: { Value: 6 } }, d], connections);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("reuses memoized results for inputs seen before", () => {
+    const compute = vi.fn(({ In }) => ({ Out: In * 2 }));
+    const types = { ...nodeTypes, double: { ...nodeTypes.double, compute } };
+    const evaluator = new GraphEvaluator(types);
+    const d = node("d", "double");
+    const connections = [link("a", "Out", "d", "In")];
+
+    evaluator.update([node("a", "number", { Value: 1 }), d], connections);
+    evaluator.update([node("a", "number", { Value: 2 }), d], connections);
+    const results = evaluator.update([node("a", "number", { Value: 1 }), d], connections);
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(results.d.Out).toBe(2);
+  });
+
+  it("compares memoized inputs in full", () => {
+    const compute = vi.fn(({ In }) => ({ Out: In }));
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      pass: { id: "pass", inputs: [{ name: "In", type: "any" }], outputs: [{ name: "Out", type: "any" }], compute },
+    };
+    const evaluator = new GraphEvaluator(types);
+    const run = (value: any) => evaluator.update([node("p", "pass", { In: value })], []).p.Out;
+
+    const bitmap = new Uint8Array([1]);
+    run({ a: [1, 2] });
+    run(bitmap);
+    expect(run({ a: [1, 2] })).toEqual({ a: [1, 2] });
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    // Other objects are only equal to themselves
+    expect(run(new Uint8Array([1]))).not.toBe(bitmap);
+    expect(run({ a: [1, 3] })).toEqual({ a: [1, 3] });
+    expect(compute).toHaveBeenCalledTimes(4);
+  });
+
+  it("feeds what feedback nodes produced into the next update", () => {
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      delay: { ...nodeTypes.double, id: "delay", feedback: true, compute: ({ In }) => ({ Out: In }) },
+    };
+    const evaluator = new GraphEvaluator(types);
+    // Only the source changes, the delay and its consumer keep their objects
+    const delay = node("f", "delay");
+    const sink = node("d", "double");
+    const connections = [link("n", "Out", "f", "In"), link("f", "Out", "d", "In")];
+    const run = (value: number) => evaluator.update([node("n", "number", { Value: value }), delay, sink], connections);
+
+    run(1);
+    expect(run(5).d.Out).toBe(2);
+    expect(run(7).d.Out).toBe(10);
+    expect(run(7).d.Out).toBe(14);
+  });
+
+  it("waits for asynchronous nodes", async () => {
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      later: {
+        id: "later",
+        inputs: [{ name: "In", type: "number" }],
+        outputs: [{ name: "Out", type: "number" }],
+        compute: async ({ In }) => ({ Out: In + 1 }),
+      },
+    };
+    const evaluator = new GraphEvaluator(types);
+    evaluator.update(
+      [node("n", "number", { Value: 1 }), node("l", "later"), node("d", "double")],
+      [link("n", "Out", "l", "In"), link("l", "Out", "d", "In")]
+    );
+    expect(evaluator.getNodeStates().l.status).toBe("pending");
+    const results = await evaluator.whenIdle();
+    expect(results.d.Out).toBe(4);
+  });
+
+  it("runs map nodes once per item", () => {
+    const map = createMapNodeType({ id: "map", itemType: "number" });
+    const types = { ...nodeTypes, map };
+    const results = evaluateGraph([{ ...node("m", "map", { Items: [1, 2, 3] }), subgraph: map.subgraph }], [], types);
+    expect(results.m.Results).toEqual([1, 2, 3]);
+    expect(results.m.Count).toBe(3);
+  });
+});
@@ -0,0 +1,753 @@
+import { NodeData, NodeTypeDef, NodeRunState, NodeRunDetails, Connection, ComputeContext, ComputeFn, PortRef, Subgraph } from "../components/Node/node";
+import { topologicalSort } from "./topology";
+import { isAllowedValue, isExecConnection, isExecPort } from "./ports";
+import { MAP_INPUT_TYPE, MAP_OUTPUT_TYPE, getNodeTypeDef } from "./nodeTypes";
+import { TypeConversion, createConverter } from "./conversions";
+
+/**
+ * Output values of every evaluated node, keyed by node id and port name.
+ */
+export type GraphResults = Record<string, Record<string, any>>;
+
+/**
+ * Collects the input values of a node: values flowing in through connections
+ * win, unconnected inputs fall back to the node's own `data`, then to the
+ * port's `default`. `readOutput` returns the upstream value carried by a
+ * connection, if there is one, and `convert` adapts it to the input's type.
+ * Multi inputs receive the values of their connections as an array, in
+ * connection order. Exec inputs carry no value and are left out.
+ */
+export function resolveInputs(
+  node: NodeData,
+  typeDef: NodeTypeDef,
+  incoming: Connection[],
+  nodesById: Map<string, NodeData>,
+  readOutput: (connection: Connection) => any,
+  convert?: (connection: Connection, value: any) => any
+): Record<string, any> {
+  const inputs: Record<string, any> = {};
+
+  const valueOf = (connection: Connection) => {
+    let value = readOutput(connection);
+    if (value === undefined) {
+      // Upstream nodes without a compute function expose their stored data
+      value = nodesById.get(connection.from.nodeId)?.data?.[connection.from.port];
+    }
+    return convert ? convert(connection, value) : value;
+  };
+
+  typeDef.inputs.forEach((port) => {
+    if (isExecPort(port)) return;
+
+    if (port.multi) {
+      const connected = incoming.filter((c) => c.to.port === port.name);
+      inputs[port.name] = connected.length > 0 ? connected.map(valueOf) : node.data?.[port.name] ?? port.default ?? [];
+      return;
+    }
+
+    const connection = incoming.find((c) => c.to.port === port.name);
+    inputs[port.name] = connection ? valueOf(connection) : node.data?.[port.name] ?? port.default;
+  });
+
+  return inputs;
+}
+
+/**
+ * Throws when a required input of the node has no value, or an enum input a
+ * value outside its options.
+ */
+export function checkInputs(typeDef: NodeTypeDef, inputs: Record<string, any>): void {
+  typeDef.inputs.forEach((port) => {
+    if (isExecPort(port)) return;
+    const value = inputs[port.name];
+    if (port.required && value === undefined) {
+      throw new Error(`Input "${port.name}" is required`);
+    }
+    if (!isAllowedValue(port, value)) {
+      throw new Error(`Input "${port.name}" does not accept ${JSON.stringify(value)}`);
+    }
+  });
+}
+
+/**
+ * Error attributed to a single node. Throw it from a `returningCallback` to
+ * have the failure shown on that node instead of failing the whole graph.
+ */
+export class NodeError extends Error {
+  nodeId: string;
+
+  constructor(nodeId: string, message: string) {
+    super(message);
+    this.name = "NodeError";
+    this.nodeId = nodeId;
+  }
+}
+
+/**
+ * Failure of a single node as reported by `NodeSystemHandle.getNodeErrors`.
+ */
+export interface NodeErrorInfo {
+  nodeId?: string; // missing when a returningCallback failed without naming a node
+  message: string;
+}
+
+/**
+ * Lists the nodes whose state is "error".
+ */
+export function collectNodeErrors(states: GraphNodeStates): NodeErrorInfo[] {
+  return Object.entries(states)
+    .filter(([, state]) => state.status === "error")
+    .map(([nodeId, state]) => ({ nodeId, message: state.error ?? "Unknown error" }));
+}
+
+/**
+ * Node states keyed by node id. Nodes without a compute function have no entry.
+ */
+export type GraphNodeStates = Record<string, NodeRunState>;
+
+export interface GraphEvaluatorOptions {
+  cacheSize?: number; // cached results kept per node (default 8, 0 disables memoization)
+  conversions?: TypeConversion[]; // applied to values crossing connections between different port types
+}
+
+/**
+ * What a node's outputs depend on. Compared in full on every cache lookup.
+ */
+interface CacheKey {
+  type: string;
+  inputs: Record<string, any>;
+  data: Record<string, any>;
+  subgraph: Subgraph | undefined;
+}
+
+interface CacheEntry {
+  key: CacheKey;
+  outputs: Record<string, any>;
+  details: NodeRunDetails;
+}
+
+interface IndexedGraph {
+  nodesById: Map<string, NodeData>;
+  incoming: Map<string, Connection[]>;
+  downstream: Map<string, string[]>; // excludes connections leaving feedback nodes
+  feedbackConsumers: Map<string, string[]>; // the nodes fed by each feedback node
+  order: NodeData[];
+}
+
+const sameCacheKey = (a: CacheKey, b: CacheKey): boolean =>
+  a.type === b.type && a.subgraph === b.subgraph && sameValue(a.data, b.data) && sameValue(a.inputs, b.inputs);
+
+/**
+ * Deep equality of input values: plain objects and arrays by content, other
+ * objects (class instances, typed arrays, bitmaps...) by identity. Shared
+ * references, such as an unchanged data URL, compare in constant time.
+ */
+function sameValue(a: any, b: any): boolean {
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b))) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  }
+  const isPlain = (value: object) => [Object.prototype, null].includes(Object.getPrototypeOf(value));
+  if (!isPlain(a) || !isPlain(b) || Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && sameValue(a[key], b[key]));
+}
+
+/**
+ * The function computing a node: its type's `compute`, or a call into the
+ * subgraph for group and map nodes.
+ */
+export function getComputeFn(
+  node: NodeData,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[] = []
+): ComputeFn | undefined {
+  const { subgraph } = node;
+  if (subgraph) {
+    return subgraph.iterate
+      ? (inputs, _node, context) => evaluateIteration(subgraph, inputs, nodeTypes, context, conversions)
+      : (inputs, _node, context) => evaluateSubgraph(subgraph, inputs, nodeTypes, context, conversions);
+  }
+  return getNodeTypeDef(node, nodeTypes)?.compute;
+}
+
+const isPromiseLike = (value: any): value is PromiseLike<any> =>
+  !!value && typeof value.then === "function";
+
+const errorMessage = (e: any): string =>
+  e instanceof Error ? e.message : String(e);
+
+/**
+ * Stateful graph evaluator that only recomputes what changed.
+ *
+ * A node is dirty when it is new, its `type` or `data` object changed, or the
+ * connections feeding it (or their order) changed. Dirtiness propagates downstream;
+ * everything else keeps its previous results. Because nodes are updated
+ * immutably, moving or selecting a node keeps its `data` reference and never
+ * triggers a recompute.
+ *
+ * Compute functions may return Promises. While a node is pending it keeps its
+ * previous results and the nodes downstream of it wait for it. A pending run
+ * is aborted through its AbortSignal as soon as the node becomes dirty again.
+ * Subscribers are notified whenever an asynchronous run settles.
+ *
+ * Connections leaving a `feedback` node are not followed when ordering and
+ * propagating: its consumers read the value it produced in the previous
+ * evaluation, which is what allows such nodes to close a loop. When its
+ * outputs change, its consumers are recomputed by the next `update`.
+ *
+ * Outputs are memoized per node together with the node's type, resolved
+ * inputs and `data` they were computed from. A dirty node whose inputs equal
+ * those of a cached entry (say, after an undo, or when an upstream node
+ * recomputed the same values) reuses it without calling `compute`. Node types
+ * with `memoize: false` are always recomputed.
+ */
+export class GraphEvaluator {
+  private nodeTypes: Record<string, NodeTypeDef>;
+  private lastNodes = new Map<string, NodeData>();
+  private lastIncoming = new Map<string, string>();
+  private graph: IndexedGraph | null = null;
+  private results: GraphResults = {};
+  private states: GraphNodeStates = {};
+  private inFlight = new Map<string, AbortController>();
+  private listeners = new Set<() => void>();
+  private cache = new Map<string, CacheEntry[]>(); // least recently used first
+  private staleFeedback = new Set<string>(); // consumers of feedback nodes whose outputs changed
+  private cacheSize: number;
+  private conversions: TypeConversion[];
+
+  constructor(nodeTypes: Record<string, NodeTypeDef>, options: GraphEvaluatorOptions = {}) {
+    this.nodeTypes = nodeTypes;
+    this.cacheSize = Math.max(0, options.cacheSize ?? 8);
+    this.conversions = options.conversions ?? [];
+  }
+
+  /**
+   * Replaces the node type registry. A different registry invalidates every
+   * cached result.
+   */
+  setNodeTypes(nodeTypes: Record<string, NodeTypeDef>): void {
+    if (nodeTypes === this.nodeTypes) return;
+    this.nodeTypes = nodeTypes;
+    this.reset();
+  }
+
+  /**
+   * Drops all cached results and aborts pending runs so that the next update
+   * recomputes everything.
+   */
+  reset(): void {
+    this.inFlight.forEach((controller) => controller.abort());
+    this.inFlight.clear();
+    this.lastNodes.clear();
+    this.lastIncoming.clear();
+    this.graph = null;
+    this.results = {};
+    this.states = {};
+    this.cache.clear();
+    this.staleFeedback.clear();
+  }
+
+  getResults(): GraphResults {
+    return this.results;
+  }
+
+  getNodeStates(): GraphNodeStates {
+    return this.states;
+  }
+
+  /**
+   * Registers a listener called whenever an asynchronous run settles.
+   * Returns a function that removes the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves with the results once no asynchronous run is pending anymore.
+   */
+  whenIdle(): Promise<GraphResults> {
+    if (this.inFlight.size === 0) return Promise.resolve(this.results);
+
+    return new Promise((resolve) => {
+      const unsubscribe = this.subscribe(() => {
+        if (this.inFlight.size === 0) {
+          unsubscribe();
+          resolve(this.results);
+        }
+      });
+    });
+  }
+
+  /**
+   * Aborts pending runs and removes all listeners.
+   */
+  dispose(): void {
+    this.reset();
+    this.listeners.clear();
+  }
+
+  /**
+   * Brings the results up to date with the given graph. Returns the same
+   * results object when nothing had to be recomputed.
+   */
+  update(nodes: NodeData[], connections: Connection[]): GraphResults {
+    const nodesById = new Map<string, NodeData>();
+    const incoming = new Map<string, Connection[]>();
+    const downstream = new Map<string, string[]>();
+    const feedbackConsumers = new Map<string, string[]>();
+
+    nodes.forEach((n) => {
+      nodesById.set(n.id, n);
+      incoming.set(n.id, []);
+      downstream.set(n.id, []);
+      feedbackConsumers.set(n.id, []);
+    });
+
+    const forward: Connection[] = [];
+    connections.forEach((c) => {
+      if (!nodesById.has(c.from.nodeId) || !nodesById.has(c.to.nodeId)) return;
+      // Control flow is left to runExecution
+      if (isExecConnection(c, nodesById, this.nodeTypes)) return;
+      incoming.get(c.to.nodeId)!.push(c);
+      if (this.isFeedback(nodesById.get(c.from.nodeId)!)) {
+        feedbackConsumers.get(c.from.nodeId)!.push(c.to.nodeId);
+      } else {
+        downstream.get(c.from.nodeId)!.push(c.to.nodeId);
+        forward.push(c);
+      }
+    });
+
+    // Consumers of feedback nodes that changed in the previous evaluation
+    const dirty = new Set([...this.staleFeedback].filter((id) => nodesById.has(id)));
+    this.staleFeedback.clear();
+    const incomingSignatures = new Map<string, string>();
+
+    nodes.forEach((n) => {
+      // Kept in connection order, which multi inputs depend on
+      const signature = incoming.get(n.id)!
+        .map((c) => `${c.from.nodeId}:${c.from.port}>${c.to.port}`)
+        .join("|");
+      incomingSignatures.set(n.id, signature);
+
+      const previous = this.lastNodes.get(n.id);
+      if (
+        !previous ||
+        previous.type !== n.type ||
+        previous.data !== n.data ||
+        previous.subgraph !== n.subgraph ||
+        previous.inputs !== n.inputs ||
+        previous.outputs !== n.outputs ||
+        this.lastIncoming.get(n.id) !== signature
+      ) {
+        dirty.add(n.id);
+      }
+    });
+
+    const removed = [...this.lastNodes.keys()].filter((id) => !nodesById.has(id));
+
+    this.lastNodes = nodesById;
+    this.lastIncoming = incomingSignatures;
+
+    if (dirty.size === 0 && removed.length === 0) {
+      return this.results;
+    }
+
+    this.graph = {
+      nodesById,
+      incoming,
+      downstream,
+      feedbackConsumers,
+      order: topologicalSort(nodes, forward),
+    };
+
+    if (removed.length > 0) {
+      this.results = { ...this.results };
+      this.states = { ...this.states };
+      removed.forEach((id) => {
+        this.inFlight.get(id)?.abort();
+        this.inFlight.delete(id);
+        delete this.results[id];
+        delete this.states[id];
+        this.cache.delete(id);
+      });
+    }
+
+    this.run(this.withDownstream(dirty));
+    return this.results;
+  }
+
+  private isFeedback(node: NodeData): boolean {
+    return !!getNodeTypeDef(node, this.nodeTypes)?.feedback;
+  }
+
+  /**
+   * What the node's outputs are cached under, or null when the node must not
+   * be memoized.
+   */
+  private cacheKey(node: NodeData, typeDef: NodeTypeDef, inputs: Record<string, any>): CacheKey | null {
+    if (this.cacheSize === 0 || typeDef.memoize === false) return null;
+    return { type: node.type, inputs, data: node.data ?? {}, subgraph: node.subgraph };
+  }
+
+  private readCache(nodeId: string, key: CacheKey): CacheEntry | undefined {
+    const entries = this.cache.get(nodeId);
+    const index = entries?.findIndex((entry) => sameCacheKey(entry.key, key)) ?? -1;
+    if (index < 0) return undefined;
+    // Move to the end so that the least recently used entry is evicted first
+    const [entry] = entries!.splice(index, 1);
+    entries!.push(entry);
+    return entry;
+  }
+
+  private writeCache(nodeId: string, entry: CacheEntry): void {
+    let entries = this.cache.get(nodeId);
+    if (!entries) {
+      entries = [];
+      this.cache.set(nodeId, entries);
+    }
+    const index = entries.findIndex((e) => sameCacheKey(e.key, entry.key));
+    if (index >= 0) entries.splice(index, 1);
+    entries.push(entry);
+    if (entries.length > this.cacheSize) {
+      entries.shift();
+    }
+  }
+
+  /**
+   * Schedules the consumers of a feedback node for the next update when its
+   * results changed, so that they read the new value.
+   */
+  private markFeedback(nodeId: string, before: Record<string, any> | undefined, after: Record<string, any> | undefined): void {
+    const node = this.graph!.nodesById.get(nodeId);
+    if (!node || !this.isFeedback(node) || sameValue(before, after)) return;
+    this.graph!.feedbackConsumers.get(nodeId)?.forEach((id) => this.staleFeedback.add(id));
+  }
+
+  /**
+   * Expands a set of node ids with everything downstream of them.
+   */
+  private withDownstream(ids: Iterable<string>): Set<string> {
+    const { downstream } = this.graph!;
+    const closure = new Set(ids);
+    const queue = [...closure];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      downstream.get(id)?.forEach((next) => {
+        if (!closure.has(next)) {
+          closure.add(next);
+          queue.push(next);
+        }
+      });
+    }
+
+    return closure;
+  }
+
+  /**
+   * Recomputes the given nodes in topological order.
+   */
+  private run(dirty: Set<string>): void {
+    const { nodesById, incoming, order } = this.graph!;
+    const previousResults = this.results;
+    const results: GraphResults = { ...this.results };
+    const states: GraphNodeStates = { ...this.states };
+    const convert = createConverter(nodesById, this.nodeTypes, this.conversions);
+
+    order.forEach((node) => {
+      if (!dirty.has(node.id)) return;
+
+      this.inFlight.get(node.id)?.abort();
+      this.inFlight.delete(node.id);
+
+      const typeDef = getNodeTypeDef(node, this.nodeTypes);
+      const compute = getComputeFn(node, this.nodeTypes, this.conversions);
+      if (!typeDef || !compute) {
+        delete results[node.id];
+        delete states[node.id];
+        return;
+      }
+
+      const isFeedbackSource = (c: Connection) => this.isFeedback(nodesById.get(c.from.nodeId)!);
+      const upstreamStates = incoming.get(node.id)!
+        .filter((c) => !isFeedbackSource(c))
+        .map((c) => states[c.from.nodeId]?.status);
+
+      // Wait for pending upstream nodes, keeping the previous results meanwhile
+      if (upstreamStates.includes("pending")) {
+        states[node.id] = { status: "pending" };
+        return;
+      }
+
+      // Upstream nodes that failed (or are blocked themselves) leave nothing to compute with
+      if (upstreamStates.includes("error") || upstreamStates.includes("idle")) {
+        delete results[node.id];
+        states[node.id] = { status: "idle" };
+        return;
+      }
+
+      const inputs = resolveInputs(node, typeDef, incoming.get(node.id)!, nodesById, (c) =>
+        // Feedback nodes deliver what they produced before this run
+        (isFeedbackSource(c) ? previousResults : results)[c.from.nodeId]?.[c.from.port],
+        convert
+      );
+
+      const key = this.cacheKey(node, typeDef, inputs);
+      const cached = key !== null ? this.readCache(node.id, key) : undefined;
+      if (cached) {
+        results[node.id] = { ...inputs, ...cached.outputs };
+        states[node.id] = { ...cached.details, status: "done" };
+        return;
+      }
+
+      const controller = new AbortController();
+      let details: NodeRunDetails = {};
+      const report = (reported: NodeRunDetails) => {
+        details = { ...details, ...reported };
+      };
+
+      let outputs: Record<string, any> | PromiseLike<Record<string, any>>;
+      try {
+        checkInputs(typeDef, inputs);
+        outputs = compute(inputs, node, { signal: controller.signal, report });
+      } catch (e) {
+        delete results[node.id];
+        states[node.id] = { ...details, status: "error", error: errorMessage(e) };
+        return;
+      }
+
+      if (isPromiseLike(outputs)) {
+        this.inFlight.set(node.id, controller);
+        states[node.id] = { status: "pending" };
+        outputs.then(
+          (value) => {
+            if (key !== null && !controller.signal.aborted) {
+              this.writeCache(node.id, { key, outputs: value ?? {}, details });
+            }
+            this.settle(node.id, controller, { ...inputs, ...(value ?? {}) }, { ...details, status: "done" });
+          },
+          (e) => this.settle(node.id, controller, undefined, { ...details, status: "error", error: errorMessage(e) })
+        );
+        return;
+      }
+
+      if (key !== null) this.writeCache(node.id, { key, outputs: outputs ?? {}, details });
+      results[node.id] = { ...inputs, ...(outputs ?? {}) };
+      states[node.id] = { ...details, status: "done" };
+    });
+
+    dirty.forEach((id) => this.markFeedback(id, previousResults[id], results[id]));
+    this.results = results;
+    this.states = states;
+  }
+
+  /**
+   * Stores the outcome of an asynchronous run and continues downstream.
+   */
+  private settle(
+    nodeId: string,
+    controller: AbortController,
+    values: Record<string, any> | undefined,
+    state: NodeRunState
+  ): void {
+    // Stale runs were aborted when their node became dirty again
+    if (controller.signal.aborted || this.inFlight.get(nodeId) !== controller) return;
+    this.inFlight.delete(nodeId);
+
+    this.markFeedback(nodeId, this.results[nodeId], values);
+    this.results = { ...this.results };
+    if (values) {
+      this.results[nodeId] = values;
+    } else {
+      delete this.results[nodeId];
+    }
+    this.states = { ...this.states, [nodeId]: state };
+
+    const downstream = this.withDownstream([nodeId]);
+    downstream.delete(nodeId);
+    this.run(downstream);
+
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Evaluates the inner graph of a group node like a function call: each group
+ * input overrides the inner ports it is bound to, each group output reads the
+ * inner port it exposes. Fails when any inner node fails.
+ */
+export function evaluateSubgraph(
+  subgraph: Subgraph,
+  inputs: Record<string, any>,
+  nodeTypes: Record<string, NodeTypeDef>,
+  context: ComputeContext,
+  conversions: TypeConversion[] = []
+): Record<string, any> | Promise<Record<string, any>> {
+  return runSubgraph(bindInputs(subgraph, inputs), subgraph, nodeTypes, conversions, context, true, (read) => {
+    const outputs: Record<string, any> = {};
+    subgraph.outputs.forEach((output) => {
+      outputs[output.name] = read(output.source);
+    });
+    return outputs;
+  });
+}
+
+/**
+ * Evaluates the body of a map node once per element of its "Items" input.
+ * Each iteration sees the element and its index on the body's Iteration node;
+ * the value reaching its Collect node goes into "Results", exposed outputs are
+ * collected into lists of their own. A failing iteration yields `undefined`
+ * and is reported as the last error instead of failing the whole node.
+ */
+export function evaluateIteration(
+  subgraph: Subgraph,
+  inputs: Record<string, any>,
+  nodeTypes: Record<string, NodeTypeDef>,
+  context: ComputeContext,
+  conversions: TypeConversion[] = []
+): Record<string, any> | Promise<Record<string, any>> {
+  const items: any[] = Array.isArray(inputs.Items) ? inputs.Items : [];
+  const bound = bindInputs(subgraph, inputs);
+  const collector = bound.find((n) => n.type === MAP_OUTPUT_TYPE);
+  let lastError: string | undefined;
+
+  type Iteration = { result: any; outputs: any[] } | undefined;
+
+  const runs = items.map((item, index): Iteration | Promise<Iteration> => {
+    const nodes = bound.map((n) =>
+      n.type === MAP_INPUT_TYPE ? { ...n, data: { ...n.data, Item: item, Index: index } } : n
+    );
+    const fail = (e: any): Iteration => {
+      lastError = `Item ${index}: ${errorMessage(e)}`;
+      return undefined;
+    };
+
+    try {
+      const run = runSubgraph(nodes, subgraph, nodeTypes, conversions, context, index === 0, (read) => ({
+        result: collector ? read({ nodeId: collector.id, port: "Result" }) : undefined,
+        outputs: subgraph.outputs.map((output) => read(output.source)),
+      }));
+      return isPromiseLike(run) ? run.then((value) => value, fail) : run;
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  const finish = (iterations: Iteration[]) => {
+    context.report?.({ iterations: items.length, lastError });
+
+    const outputs: Record<string, any> = {
+      Results: iterations.map((i) => i?.result),
+      Count: items.length,
+    };
+    subgraph.outputs.forEach((output, idx) => {
+      outputs[output.name] = iterations.map((i) => i?.outputs[idx]);
+    });
+    return outputs;
+  };
+
+  return runs.some(isPromiseLike) ? Promise.all(runs).then(finish) : finish(runs as Iteration[]);
+}
+
+/**
+ * Inner nodes with the values of the subgraph's inputs written into the data
+ * of the ports they are bound to.
+ */
+function bindInputs(subgraph: Subgraph, inputs: Record<string, any>): NodeData[] {
+  return subgraph.nodes.map((n) => {
+    const overrides: Record<string, any> = {};
+    subgraph.inputs.forEach((input) => {
+      if (inputs[input.name] === undefined) return;
+      input.targets
+        .filter((t) => t.nodeId === n.id)
+        .forEach((t) => { overrides[t.port] = inputs[input.name]; });
+    });
+    return Object.keys(overrides).length > 0 ? { ...n, data: { ...n.data, ...overrides } } : n;
+  });
+}
+
+/**
+ * Evaluates inner nodes with a throwaway evaluator and hands a reader of their
+ * values to `collect`. Throws (or rejects) when an inner node fails. With
+ * `reportInner`, the inner values and states are reported as the node's
+ * `inner` details, also when an inner node failed.
+ */
+function runSubgraph<T>(
+  nodes: NodeData[],
+  subgraph: Subgraph,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[],
+  context: ComputeContext,
+  reportInner: boolean,
+  collect: (read: (ref: PortRef) => any) => T
+): T | Promise<T> {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const evaluator = new GraphEvaluator(nodeTypes, { cacheSize: 0, conversions });
+  evaluator.update(nodes, subgraph.connections);
+
+  const finish = (results: GraphResults) => {
+    if (reportInner) {
+      context.report?.({ inner: { results, states: evaluator.getNodeStates() } });
+    }
+    const failure = collectNodeErrors(evaluator.getNodeStates())[0];
+    if (failure) {
+      const inner = nodesById.get(failure.nodeId!)!;
+      const title = getNodeTypeDef(inner, nodeTypes)?.title ?? inner.type;
+      throw new Error(`${title}: ${failure.message}`);
+    }
+    return collect(({ nodeId, port }) => results[nodeId]?.[port] ?? nodesById.get(nodeId)?.data?.[port]);
+  };
+
+  const states = Object.values(evaluator.getNodeStates());
+  if (!states.some((s) => s.status === "pending")) {
+    return finish(evaluator.getResults());
+  }
+
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      evaluator.dispose();
+      reject(new Error("Aborted"));
+    };
+    context.signal.addEventListener("abort", abort);
+    evaluator.whenIdle().then((results) => {
+      context.signal.removeEventListener("abort", abort);
+      try {
+        resolve(finish(results));
+      } catch (e) {
+        reject(e);
+      }
+    });
+  });
+}
+
+/**
+ * Evaluates the graph in topological order using the `compute` functions of
+ * the node types. Returns the resolved inputs and computed outputs of every
+ * node that has a compute function. Asynchronous compute functions are not
+ * awaited; use `GraphEvaluator.whenIdle()` for graphs containing them.
+ */
+export function evaluateGraph(
+  nodes: NodeData[],
+  connections: Connection[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[] = []
+): GraphResults {
+  return new GraphEvaluator(nodeTypes, { cacheSize: 0, conversions }).update(nodes, connections);
+}
+
+/**
+ * Merges evaluation results into node data so that they can be displayed.
+ */
+export function applyResults(nodes: NodeData[], results: GraphResults): NodeData[] {
+  return nodes.map((n) =>
+    results[n.id] ? { ...n, data: { ...n.data, ...results[n.id] } } : n
+  );
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { runExecution } from "./execution";
+import { NodeError } from "./evaluate";
+
+const exec = (name: string) => ({ name, type: "exec", kind: "exec" as const });
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  start: {
+    id: "start",
+    inputs: [],
+    outputs: [exec("Then")],
+  },
+  counter: {
+    id: "counter",
+    inputs: [exec("Run"), { name: "Step", type: "number", default: 1 }],
+    outputs: [exec("Then"), { name: "Count", type: "number" }],
+    execute: ({ Step }, _data, { variables }) => {
+      variables.count = (variables.count ?? 0) + Step;
+      return { outputs: { Count: variables.count } };
+    },
+  },
+  loop: {
+    id: "loop",
+    inputs: [exec("Run")],
+    outputs: [exec("Body"), exec("Done")],
+    execute: (_inputs, _data, { variables }) => {
+      variables.loops = (variables.loops ?? 0) + 1;
+      return { next: variables.loops < 3 ? "Body" : "Done" };
+    },
+  },
+  fail: {
+    id: "fail",
+    inputs: [exec("Run")],
+    outputs: [],
+    execute: () => {
+      throw new Error("boom");
+    },
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any> = {}): NodeData => ({ id, type, x: 0, y: 0, data });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("runExecution", () => {
+  it("follows exec connections from the entry nodes", async () => {
+    const result = await runExecution(
+      [node("s", "start"), node("a", "counter", { Step: 2 }), node("b", "counter", { Step: 5 })],
+      [link("s", "Then", "a", "Run"), link("a", "Then", "b", "Run")],
+      nodeTypes
+    );
+    expect(result.variables.count).toBe(7);
+    expect(result.outputs.b.Count).toBe(7);
+  });
+
+  it("follows the exec output chosen by the node", async () => {
+    const result = await runExecution(
+      [node("s", "start"), node("l", "loop"), node("c", "counter")],
+      [link("s", "Then", "l", "Run"), link("l", "Body", "l", "Run"), link("l", "Done", "c", "Run")],
+      nodeTypes
+    );
+    expect(result.variables).toEqual({ loops: 3, count: 1 });
+  });
+
+  it("stops endless loops after maxSteps", async () => {
+    const types = { ...nodeTypes, loop: { ...nodeTypes.loop, execute: () => ({ next: "Body" }) } };
+    await expect(runExecution(
+      [node("s", "start"), node("l", "loop")],
+      [link("s", "Then", "l", "Run"), link("l", "Body", "l", "Run")],
+      types,
+      { maxSteps: 10 }
+    )).rejects.toThrow();
+  });
+
+  it("rejects with a NodeError naming the failed node", async () => {
+    const error = await runExecution(
+      [node("s", "start"), node("f", "fail")],
+      [link("s", "Then", "f", "Run")],
+      nodeTypes
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(NodeError);
+    expect(error.nodeId).toBe("f");
+    expect(error.message).toContain("boom");
+  });
+});
@@ -0,0 +1,170 @@
+import { NodeData, NodeTypeDef, Connection, ExecuteResult, ExecutionContext } from "../components/Node/node";
+import { GraphResults, NodeError, checkInputs, getComputeFn, resolveInputs } from "./evaluate";
+import { getNodeTypeDef } from "./nodeTypes";
+import { isExecConnection, isExecPort } from "./ports";
+import { TypeConversion, createConverter } from "./conversions";
+
+export interface ExecutionOptions {
+  entry?: string | string[]; // node ids to start from; defaults to every node with exec outputs but no exec inputs
+  variables?: Record<string, any>; // initial shared state, mutated in place
+  signal?: AbortSignal;
+  maxSteps?: number; // guards against endless exec loops (default 10000)
+  conversions?: TypeConversion[]; // applied to data crossing connections between different port types
+}
+
+export interface ExecutionResult {
+  variables: Record<string, any>;
+  outputs: GraphResults; // inputs and outputs of every executed node, from its last execution
+  steps: number;
+}
+
+const hasExecPorts = (typeDef: NodeTypeDef | undefined): boolean =>
+  !!typeDef && [...typeDef.inputs, ...typeDef.outputs].some(isExecPort);
+
+const asNodeError = (nodeId: string, e: any): NodeError =>
+  e instanceof NodeError ? e : new NodeError(nodeId, e instanceof Error ? e.message : String(e));
+
+/**
+ * Runs an imperative graph: starting at the entry nodes, follows exec
+ * connections depth-first and calls each reached node's `execute` function.
+ * Connections leaving the same exec output fire in the order they were made.
+ *
+ * Data inputs are pulled lazily right before a node executes. Pure nodes
+ * (without exec ports) are recomputed on every pull so that they see the
+ * current variables; nodes with exec ports deliver the outputs of their last
+ * execution. A node without `execute` simply passes control to all of its exec
+ * outputs.
+ *
+ * Rejects with a NodeError naming the node that failed.
+ */
+export async function runExecution(
+  nodes: NodeData[],
+  connections: Connection[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const execOut = new Map<string, Connection[]>();
+  const dataIn = new Map<string, Connection[]>();
+
+  connections.forEach((c) => {
+    if (!nodesById.has(c.from.nodeId) || !nodesById.has(c.to.nodeId)) return;
+    if (isExecConnection(c, nodesById, nodeTypes)) {
+      const key = `${c.from.nodeId}-${c.from.port}`;
+      execOut.set(key, [...(execOut.get(key) ?? []), c]);
+    } else {
+      dataIn.set(c.to.nodeId, [...(dataIn.get(c.to.nodeId) ?? []), c]);
+    }
+  });
+
+  const signal = options.signal ?? new AbortController().signal;
+  const variables = options.variables ?? {};
+  const maxSteps = options.maxSteps ?? 10000;
+  const conversions = options.conversions ?? [];
+  const convert = createConverter(nodesById, nodeTypes, conversions);
+  const outputs: GraphResults = {};
+  let steps = 0;
+
+  // Values of the data inputs of a node. `pulled` memoizes pure nodes within
+  // one pull so that diamonds are computed once.
+  const pull = async (node: NodeData, pulled: Map<string, Record<string, any> | undefined>) => {
+    const incoming = dataIn.get(node.id) ?? [];
+    const upstream = new Map<string, Record<string, any> | undefined>();
+
+    for (const c of incoming) {
+      if (!upstream.has(c.from.nodeId)) {
+        upstream.set(c.from.nodeId, await valuesOf(nodesById.get(c.from.nodeId)!, pulled));
+      }
+    }
+
+    const typeDef = getNodeTypeDef(node, nodeTypes)!;
+    const inputs = resolveInputs(node, typeDef, incoming, nodesById, (c) =>
+      upstream.get(c.from.nodeId)?.[c.from.port],
+      convert
+    );
+    try {
+      checkInputs(typeDef, inputs);
+    } catch (e) {
+      throw asNodeError(node.id, e);
+    }
+    return inputs;
+  };
+
+  const valuesOf = async (
+    source: NodeData,
+    pulled: Map<string, Record<string, any> | undefined>
+  ): Promise<Record<string, any> | undefined> => {
+    if (hasExecPorts(getNodeTypeDef(source, nodeTypes))) return outputs[source.id];
+    // Without compute, resolveInputs falls back to the source's data
+    const compute = getComputeFn(source, nodeTypes, conversions);
+    if (!compute) return undefined;
+    // Also stops at loops through feedback nodes
+    if (pulled.has(source.id)) return pulled.get(source.id);
+
+    pulled.set(source.id, undefined);
+    const inputs = await pull(source, pulled);
+    try {
+      const values = (await compute(inputs, source, { signal, variables })) ?? {};
+      pulled.set(source.id, values);
+      return values;
+    } catch (e) {
+      throw asNodeError(source.id, e);
+    }
+  };
+
+  const fire = async (nodeId: string, trigger?: string): Promise<void> => {
+    if (signal.aborted) {
+      throw new Error("Execution aborted");
+    }
+    if (++steps > maxSteps) {
+      throw new NodeError(nodeId, `Execution stopped after ${maxSteps} steps`);
+    }
+
+    const node = nodesById.get(nodeId)!;
+    const typeDef = getNodeTypeDef(node, nodeTypes);
+    if (!typeDef) {
+      throw new NodeError(nodeId, `Unknown node type "${node.type}"`);
+    }
+
+    const inputs = await pull(node, new Map());
+    const context: ExecutionContext = { signal, variables, trigger };
+
+    let result: ExecuteResult | void = undefined;
+    if (typeDef.execute) {
+      try {
+        result = await typeDef.execute(inputs, node, context);
+      } catch (e) {
+        throw asNodeError(nodeId, e);
+      }
+    }
+    outputs[nodeId] = { ...inputs, ...(result?.outputs ?? {}) };
+
+    const next = result?.next === undefined
+      ? typeDef.outputs.filter(isExecPort).map((p) => p.name)
+      : result.next === null ? [] : ([] as string[]).concat(result.next);
+
+    for (const port of next) {
+      for (const c of execOut.get(`${nodeId}-${port}`) ?? []) {
+        await fire(c.to.nodeId, c.to.port);
+      }
+    }
+  };
+
+  const entry = options.entry === undefined
+    ? nodes
+      .filter((n) => {
+        const typeDef = getNodeTypeDef(n, nodeTypes);
+        return !!typeDef && typeDef.outputs.some(isExecPort) && !typeDef.inputs.some(isExecPort);
+      })
+      .map((n) => n.id)
+    : ([] as string[]).concat(options.entry);
+
+  for (const id of entry) {
+    if (!nodesById.has(id)) {
+      throw new Error(`Entry node "${id}" not found`);
+    }
+    await fire(id);
+  }
+
+  return { variables, outputs, steps };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { resolveTypeVariables } from "./generics";
+import { getNodeTypeDef } from "./nodeTypes";
+import { Graph } from "./graph";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+  },
+  text: {
+    id: "text",
+    inputs: [{ name: "Text", type: "string" }],
+    outputs: [{ name: "Out", type: "string" }],
+  },
+  select: {
+    id: "select",
+    typeParams: ["T"],
+    inputs: [{ name: "Condition", type: "boolean" }, { name: "A", type: "T" }, { name: "B", type: "T" }],
+    outputs: [{ name: "Result", type: "T" }],
+  },
+};
+
+const node = (id: string, type: string): NodeData => ({ id, type, x: 0, y: 0, data: {} });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("resolveTypeVariables", () => {
+  it("binds type variables to the type of their first concrete connection", () => {
+    const state = { nodes: [node("n", "number"), node("s", "select")], connections: [link("n", "Out", "s", "A")] };
+    const [, select] = resolveTypeVariables(state, nodeTypes).nodes;
+    expect(select.typeArgs).toEqual({ T: "number" });
+    expect(getNodeTypeDef(select, nodeTypes)!.outputs[0].type).toBe("number");
+  });
+
+  it("spreads bindings through chains of generic nodes", () => {
+    const state = {
+      nodes: [node("s1", "select"), node("s2", "select"), node("t", "text")],
+      connections: [link("s1", "Result", "s2", "A"), link("s2", "Result", "t", "Text")],
+    };
+    const resolved = resolveTypeVariables(state, nodeTypes).nodes;
+    expect(resolved.map((n) => n.typeArgs)).toEqual([{ T: "string" }, { T: "string" }, undefined]);
+  });
+
+  it("unbinds variables without a connection and keeps unchanged states", () => {
+    const bound = { ...node("s", "select"), typeArgs: { T: "number" } };
+    const [unbound] = resolveTypeVariables({ nodes: [bound], connections: [] }, nodeTypes).nodes;
+    expect(unbound.typeArgs).toBeUndefined();
+
+    const state = { nodes: [node("n", "number")], connections: [] };
+    expect(resolveTypeVariables(state, nodeTypes)).toBe(state);
+  });
+});
+
+describe("Graph with generic nodes", () => {
+  it("only accepts the bound type on the other ports of a node", () => {
+    const graph = new Graph({ nodeTypes });
+    const n = graph.addNode("number", 0, 0).id;
+    const t = graph.addNode("text", 0, 0).id;
+    const s = graph.addNode("select", 0, 0).id;
+
+    expect(graph.connect(link(n, "Out", s, "A"))).toBeNull();
+    expect(graph.connect(link(t, "Out", s, "B"))).toMatch(/different types/);
+    graph.disconnect(graph.connections[0]);
+    expect(graph.nodes.find((x) => x.id === s)!.typeArgs).toBeUndefined();
+    expect(graph.connect(link(t, "Out", s, "B"))).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { NodeTypeDef, Connection } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+import { isExecPort } from "./ports";
+import { getNodeTypeDef, isTypeVariable, withInstancePorts } from "./nodeTypes";
+
+/**
+ * Infers the type variables of generic nodes from their connections and
+ * stores them in `NodeData.typeArgs`. A variable takes the type of the first
+ * connection linking one of its ports to a concrete type, and bindings spread
+ * through chains of generic nodes. Variables without such a connection are
+ * unbound again. Nodes (and nested subgraphs) whose bindings did not change
+ * keep their identity.
+ */
+export function resolveTypeVariables<S extends GraphState>(state: S, nodeTypes: Record<string, NodeTypeDef>): S {
+  const { nodes, connections } = state;
+  const hasGenerics = nodes.some((n) => n.typeArgs || n.subgraph || nodeTypes[n.type]?.typeParams);
+  if (!hasGenerics) return state;
+
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const bindings = new Map<string, Record<string, string>>();
+  nodes.forEach((n) => {
+    if (nodeTypes[n.type]?.typeParams) bindings.set(n.id, {});
+  });
+
+  // Concrete type of a port, or the variable it is bound through
+  const typeOf = (nodeId: string, port: string, direction: "inputs" | "outputs") => {
+    const node = nodesById.get(nodeId)!;
+    // Generic nodes are looked at without their previous bindings
+    const typeDef = bindings.has(nodeId) ? withInstancePorts(nodeTypes[node.type], node) : getNodeTypeDef(node, nodeTypes);
+    const portDef = typeDef?.[direction].find((p) => p.name === port);
+    if (!typeDef || !portDef || isExecPort(portDef)) return null;
+    if (!isTypeVariable(typeDef, portDef)) return { type: portDef.type };
+    return { variable: portDef.type, args: bindings.get(nodeId)!, type: bindings.get(nodeId)![portDef.type] };
+  };
+
+  const valid = connections.filter((c: Connection) => nodesById.has(c.from.nodeId) && nodesById.has(c.to.nodeId));
+  let changed = bindings.size > 0;
+  while (changed) {
+    changed = false;
+    valid.forEach((c) => {
+      const from = typeOf(c.from.nodeId, c.from.port, "outputs");
+      const to = typeOf(c.to.nodeId, c.to.port, "inputs");
+      if (!from || !to) return;
+
+      if (from.type && to.variable && !to.type) {
+        to.args[to.variable] = from.type;
+        changed = true;
+      } else if (to.type && from.variable && !from.type) {
+        from.args[from.variable] = to.type;
+        changed = true;
+      }
+    });
+  }
+
+  let anyChanged = false;
+  const resolved = nodes.map((n) => {
+    let node = n;
+    const args = bindings.get(n.id);
+    const typeArgs = args && Object.keys(args).length > 0 ? args : undefined;
+    if (!sameArgs(n.typeArgs, typeArgs)) {
+      const { typeArgs: _previous, ...rest } = n;
+      node = typeArgs ? { ...rest, typeArgs } : rest;
+    }
+    if (n.subgraph) {
+      const inner = resolveTypeVariables(n.subgraph, nodeTypes);
+      if (inner !== n.subgraph) {
+        node = { ...node, subgraph: inner };
+      }
+    }
+    if (node !== n) anyChanged = true;
+    return node;
+  });
+
+  return anyChanged ? { ...state, nodes: resolved } : state;
+}
+
+function sameArgs(a: Record<string, string> | undefined, b: Record<string, string> | undefined): boolean {
+  if (!a || !b) return a === b;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { NodeTypeDef } from "../components/Node/node";
+import { Graph } from "./graph";
+import { ANY_TYPE } from "./conversions";
+import { createMapNodeType } from "./subgraph";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number", default: 1 }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  add: {
+    id: "add",
+    inputs: [{ name: "A", type: "number" }, { name: "B", type: "number" }],
+    outputs: [{ name: "Sum", type: "number" }],
+    compute: ({ A, B }) => ({ Sum: (A ?? 0) + (B ?? 0) }),
+  },
+  text: {
+    id: "text",
+    inputs: [{ name: "Text", type: "string" }],
+    outputs: [{ name: "Out", type: "string" }],
+    compute: ({ Text }) => ({ Out: Text }),
+  },
+};
+
+const link = (from: string, fromPort: string, to: string, toPort: string) => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("Graph", () => {
+  it("adds nodes with their port defaults", () => {
+    const graph = new Graph({ nodeTypes });
+    const node = graph.addNode("number", 10, 20);
+    expect(graph.nodes).toHaveLength(1);
+    expect(node.data).toEqual({ Value: 1 });
+  });
+
+  it("connects compatible ports and rejects invalid connections", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0).id;
+    const b = graph.addNode("add", 0, 0).id;
+    const t = graph.addNode("text", 0, 0).id;
+
+    expect(graph.connect(link(a, "Out", b, "A"))).toBeNull();
+    expect(graph.connect(link(a, "Out", b, "A"))).toBe("This connection already exists");
+    expect(graph.connect(link(a, "Out", t, "Text"))).toMatch(/different types/);
+    expect(graph.connect(link(b, "Sum", b, "B"))).toBe("Cannot connect a node to itself");
+    expect(graph.connections).toHaveLength(1);
+  });
+
+  it("only treats the reserved wildcard type as compatible with everything", () => {
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      anything: { id: "anything", inputs: [{ name: "In", type: "any" }], outputs: [] },
+      wildcard: { id: "wildcard", inputs: [{ name: "In", type: ANY_TYPE }], outputs: [] },
+    };
+    const graph = new Graph({ nodeTypes: types });
+    const a = graph.addNode("number", 0, 0).id;
+    const named = graph.addNode("anything", 0, 0).id;
+    const wildcard = graph.addNode("wildcard", 0, 0).id;
+    expect(graph.connect(link(a, "Out", named, "In"))).toMatch(/different types/);
+    expect(graph.connect(link(a, "Out", wildcard, "In"))).toBeNull();
+  });
+
+  it("rejects connections closing a cycle", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("add", 0, 0).id;
+    const b = graph.addNode("add", 0, 0).id;
+    expect(graph.connect(link(a, "Sum", b, "A"))).toBeNull();
+    expect(graph.connect(link(b, "Sum", a, "A"))).toMatch(/cycle/);
+  });
+
+  it("validates the connections of spliced nodes", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0).id;
+    const b = graph.addNode("number", 0, 0).id;
+    const t = graph.addNode("text", 0, 0).id;
+    const s = graph.addNode("add", 0, 0).id;
+    graph.connect(link(a, "Out", b, "Value"));
+    const [connection] = graph.connections;
+
+    expect(graph.spliceNode(t, connection, "Text", "Out")).toMatch(/different types/);
+    expect(graph.connections).toEqual([connection]);
+    expect(graph.spliceNode(s, connection, "A", "Sum")).toBeNull();
+    expect(graph.connections).toEqual([link(a, "Out", s, "A"), link(s, "Sum", b, "Value")]);
+  });
+
+  it("applies the connection validator to initial and deserialized graphs", () => {
+    const noAdd = (candidate: { to: { nodeId: string } }) => (candidate.to.nodeId === "s" ? "No sums" : null);
+    const nodes = [
+      { id: "a", type: "number", x: 0, y: 0, data: {} },
+      { id: "s", type: "add", x: 0, y: 0, data: {} },
+    ];
+    const connections = [link("a", "Out", "s", "A")];
+
+    expect(new Graph({ nodeTypes, nodes, connections, validateConnection: noAdd }).connections).toEqual([]);
+    const json = new Graph({ nodeTypes, nodes, connections }).toJSON();
+    expect(Graph.fromJSON(json, nodeTypes).connections).toHaveLength(1);
+    expect(Graph.fromJSON(json, nodeTypes, { validateConnection: noAdd }).connections).toEqual([]);
+  });
+
+  it("reconnects the ports of nodes with missing types", () => {
+    const nodes = [
+      { id: "a", type: "number", x: 0, y: 0, data: {} },
+      { id: "m", type: "removed", x: 0, y: 0, data: { In: 1 } },
+    ];
+    const graph = new Graph({ nodeTypes, nodes });
+    expect(graph.connect(link("a", "Out", "m", "In"))).toBeNull();
+    expect(graph.connect(link("a", "Out", "m", "Other"))).toMatch(/not found/);
+  });
+
+  it("undoes and redoes changes", () => {
+    const graph = new Graph({ nodeTypes });
+    graph.addNode("number", 0, 0);
+    graph.addNode("number", 0, 0);
+    expect(graph.nodes).toHaveLength(2);
+
+    graph.undo();
+    expect(graph.nodes).toHaveLength(1);
+    expect(graph.canRedo).toBe(true);
+    graph.redo();
+    expect(graph.nodes).toHaveLength(2);
+  });
+
+  it("removes the connections of deleted nodes", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0).id;
+    const b = graph.addNode("add", 0, 0).id;
+    graph.connect(link(a, "Out", b, "A"));
+    graph.deleteNodes(a);
+    expect(graph.connections).toEqual([]);
+  });
+
+  it("evaluates incrementally", () => {
+    let calls = 0;
+    const counting = {
+      ...nodeTypes,
+      add: { ...nodeTypes.add, compute: (inputs: Record<string, any>) => { calls++; return nodeTypes.add.compute!(inputs, null as any, null as any); } },
+    };
+    const graph = new Graph({ nodeTypes: counting });
+    const a = graph.addNode("number", 0, 0, { Value: 2 }).id;
+    const b = graph.addNode("add", 0, 0, { B: 3 }).id;
+    graph.connect(link(a, "Out", b, "A"));
+
+    expect(graph.evaluate()[b].Sum).toBe(5);
+    graph.moveNode(a, 50, 50);
+    graph.evaluate();
+    expect(calls).toBe(1);
+
+    graph.setNodeValue(a, "Value", 10);
+    expect(graph.evaluate()[b].Sum).toBe(13);
+  });
+
+  it("round-trips through JSON", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0, { Value: 4 }).id;
+    const b = graph.addNode("add", 0, 0).id;
+    graph.connect(link(a, "Out", b, "A"));
+
+    const copy = Graph.fromJSON(graph.toJSON(), nodeTypes);
+    expect(copy.connections).toEqual(graph.connections);
+    expect(copy.evaluate()[b].Sum).toBe(4);
+  });
+
+  it("groups nodes and evaluates the group like the original nodes", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0, { Value: 2 }).id;
+    const b = graph.addNode("add", 0, 0, { B: 5 }).id;
+    const c = graph.addNode("add", 0, 0, { B: 1 }).id;
+    graph.connect(link(a, "Out", b, "A"));
+    graph.connect(link(b, "Sum", c, "A"));
+
+    graph.groupNodes([b]);
+    const results = graph.evaluate();
+    expect(results[c].Sum).toBe(8);
+  });
+
+  it("types the body ports of map nodes", () => {
+    const types = { ...nodeTypes, map: createMapNodeType({ id: "map", itemType: "number" }) };
+    const graph = new Graph({ nodeTypes: types });
+    const body = graph.getSubgraph(graph.addNode("map", 0, 0).id);
+    const [item, result] = body.nodes.map((n) => n.id);
+    const text = body.addNode("text", 0, 0).id;
+    expect(body.connect(link(item, "Item", text, "Text"))).toMatch(/different types/);
+    expect(body.connect(link(text, "Out", result, "Result"))).toMatch(/different types/);
+  });
+
+  it("reports the inner values of groups with their inputs bound", () => {
+    const graph = new Graph({ nodeTypes });
+    const a = graph.addNode("number", 0, 0, { Value: 2 }).id;
+    const b = graph.addNode("add", 0, 0, { B: 5 }).id;
+    graph.connect(link(a, "Out", b, "A"));
+
+    const group = graph.groupNodes([b]);
+    graph.evaluate();
+    const inner = graph.getNodeStates()[group].inner!;
+    expect(inner.results[b]).toEqual({ A: 2, B: 5, Sum: 7 });
+    expect(inner.states[b].status).toBe("done");
+  });
+});
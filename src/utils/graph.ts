@@ -0,0 +1,581 @@
+import { NodeData, NodeTypeDef, Connection, PortDirection } from "../components/Node/node";
+import { GraphState, readGraph } from "./deserialize";
+import { serializeGraph } from "./serialize";
+import { ConnectionValidator, RejectedConnection, applyConnectionValidator, validateConnection } from "./validation";
+import { GraphEvaluator, GraphResults, GraphNodeStates } from "./evaluate";
+import { createNodeId } from "./ids";
+import { getNodeTypeDef } from "./nodeTypes";
+import { groupNodes, ungroupNode, withInnerGraph, cloneSubgraph } from "./subgraph";
+import { addInstancePort, getPortDefaults, removeInstancePort } from "./ports";
+import { runExecution, ExecutionOptions, ExecutionResult } from "./execution";
+import { TypeConversion } from "./conversions";
+import { resolveTypeVariables } from "./generics";
+import { upgradeGraph } from "./upgrades";
+import { AssetStore, collectAssetRefs, resolveAssets } from "./assets";
+
+export interface GraphOptions {
+  nodeTypes: Record<string, NodeTypeDef>;
+  nodes?: NodeData[];
+  connections?: Connection[];
+  maxHistory?: number;
+  cacheSize?: number; // results cached per node by the evaluator, see GraphEvaluatorOptions
+  conversions?: TypeConversion[]; // lets ports of different types connect, see TypeConversion
+  validateConnection?: ConnectionValidator; // app rules run after the built-in connection checks
+  assets?: AssetStore; // resolves the asset references in node data for evaluation and execution
+}
+
+export interface SetStateOptions {
+  replace?: boolean; // overwrite the present state instead of adding an undo step
+}
+
+const EMPTY_STATE: GraphState = { nodes: [], connections: [] };
+
+interface HistoryState {
+  past: GraphState[];
+  present: GraphState;
+  future: GraphState[];
+}
+
+/**
+ * Framework-free graph model. Owns nodes, connections, connection validation,
+ * undo/redo history and evaluation, so the same graph can be loaded, mutated
+ * and evaluated in Node.js as well as rendered by `NodeSystem`.
+ *
+ * State is immutable: every mutation replaces the nodes/connections arrays and
+ * notifies subscribers. The type variables of generic nodes are re-inferred
+ * from the connections on every change.
+ *
+ * `getSubgraph` returns a Graph for the inner graph of a group node. It has the
+ * same API, but stores its state in the group node and shares the history and
+ * subscribers of the graph it was opened from.
+ */
+export class Graph {
+  private nodeTypes: Record<string, NodeTypeDef>;
+  private history: HistoryState;
+  private maxHistory: number;
+  private listeners = new Set<() => void>();
+  private evaluator: GraphEvaluator | null = null;
+  private cacheSize: number | undefined;
+  private conversions: TypeConversion[];
+  private validator: ConnectionValidator | undefined;
+  private assets: AssetStore | undefined;
+  private owner: { graph: Graph; groupId: string } | null = null;
+
+  constructor(options: GraphOptions) {
+    this.nodeTypes = options.nodeTypes;
+    this.maxHistory = options.maxHistory ?? 50;
+    this.cacheSize = options.cacheSize;
+    this.conversions = options.conversions ?? [];
+    this.validator = options.validateConnection;
+    this.assets = options.assets;
+
+    // Initial connections the app's rules refuse are left out, like on load
+    let initial = upgradeGraph({ nodes: options.nodes ?? [], connections: options.connections ?? [] }, options.nodeTypes);
+    if (this.validator) {
+      initial = applyConnectionValidator(initial, this.validator).state;
+    }
+    this.history = {
+      past: [],
+      present: resolveTypeVariables(initial, options.nodeTypes),
+      future: [],
+    };
+  }
+
+  /**
+   * Creates a graph from the output of `serializeGraph`, repairing what does
+   * not match the node types (see `readGraph`) and leaving out the
+   * connections refused by `options.validateConnection`. Throws when the JSON
+   * cannot be loaded at all.
+   */
+  static fromJSON(
+    json: string,
+    nodeTypes: Record<string, NodeTypeDef>,
+    options: Omit<GraphOptions, "nodeTypes" | "nodes" | "connections"> = {}
+  ): Graph {
+    const { graph, problems } = readGraph(json, nodeTypes, options.conversions);
+    const fatal = problems.find((p) => p.severity === "fatal");
+    if (fatal) {
+      throw new Error(fatal.message);
+    }
+    return new Graph({ ...options, nodeTypes, ...graph });
+  }
+
+  get nodes(): NodeData[] {
+    return this.getState().nodes;
+  }
+
+  get connections(): Connection[] {
+    return this.getState().connections;
+  }
+
+  get canUndo(): boolean {
+    if (this.owner) return this.owner.graph.canUndo;
+    return this.history.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    if (this.owner) return this.owner.graph.canRedo;
+    return this.history.future.length > 0;
+  }
+
+  getState(): GraphState {
+    if (this.owner) {
+      const { graph, groupId } = this.owner;
+      // A group that was deleted (or undone) leaves an empty graph behind
+      return graph.nodes.find((n) => n.id === groupId)?.subgraph ?? EMPTY_STATE;
+    }
+    return this.history.present;
+  }
+
+  getNodeTypes(): Record<string, NodeTypeDef> {
+    return this.nodeTypes;
+  }
+
+  setNodeTypes(nodeTypes: Record<string, NodeTypeDef>): void {
+    this.nodeTypes = nodeTypes;
+    this.evaluator?.setNodeTypes(nodeTypes);
+  }
+
+  /**
+   * Replaces the type conversions used to validate and evaluate connections.
+   */
+  setConversions(conversions: TypeConversion[]): void {
+    if (conversions === this.conversions) return;
+    this.conversions = conversions;
+    // Converted values are baked into cached results
+    this.evaluator?.dispose();
+    this.evaluator = null;
+  }
+
+  /**
+   * Replaces the app rules checked after the built-in connection checks.
+   * Existing connections are kept.
+   */
+  setConnectionValidator(validator: ConnectionValidator | undefined): void {
+    this.validator = validator;
+  }
+
+  /**
+   * Registers a listener called after every change of state or history.
+   * Returns a function that removes the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    if (this.owner) return this.owner.graph.subscribe(listener);
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Replaces the whole state, adding an undo step unless `replace` is set.
+   * Nodes without a version get the current one of their type.
+   */
+  setState(state: GraphState, options: SetStateOptions = {}): void {
+    if (this.owner) {
+      this.owner.graph.setSubgraph(this.owner.groupId, state, options);
+      return;
+    }
+
+    state = resolveTypeVariables(upgradeGraph(state, this.nodeTypes), this.nodeTypes);
+    if (options.replace) {
+      this.history = { ...this.history, present: state };
+    } else {
+      const past = [...this.history.past, this.history.present];
+      if (past.length > this.maxHistory) {
+        past.shift();
+      }
+      this.history = { past, present: state, future: [] };
+    }
+    this.notify();
+  }
+
+  undo(): void {
+    if (this.owner) return this.owner.graph.undo();
+
+    const { past, present, future } = this.history;
+    if (past.length === 0) return;
+
+    this.history = {
+      past: past.slice(0, past.length - 1),
+      present: past[past.length - 1],
+      future: [present, ...future],
+    };
+    this.notify();
+  }
+
+  redo(): void {
+    if (this.owner) return this.owner.graph.redo();
+
+    const { past, present, future } = this.history;
+    if (future.length === 0) return;
+
+    this.history = {
+      past: [...past, present],
+      present: future[0],
+      future: future.slice(1),
+    };
+    this.notify();
+  }
+
+  /**
+   * Replaces the state with a loaded graph as a single undo step. Nodes saved
+   * with older versions of their types are upgraded first (see `upgradeGraph`).
+   * Connections refused by the connection validator are left out and returned.
+   */
+  load(state: GraphState): RejectedConnection[] {
+    const upgraded = upgradeGraph(state, this.nodeTypes);
+    if (!this.validator) {
+      this.setState(upgraded);
+      return [];
+    }
+    const checked = applyConnectionValidator(upgraded, this.validator);
+    this.setState(checked.state);
+    return checked.rejected;
+  }
+
+  /**
+   * Serializes the present state with `serializeGraph`.
+   */
+  toJSON(): string {
+    return serializeGraph(this.nodes, this.connections);
+  }
+
+  /**
+   * Adds a node of the given type. Its inputs start with their declared
+   * defaults unless `data` gives them a value.
+   */
+  addNode(type: string, x: number, y: number, data: Record<string, any> = {}): NodeData {
+    const node: NodeData = { id: createNodeId(), type, x, y, data: { ...getPortDefaults(this.nodeTypes[type]), ...data } };
+    const version = this.nodeTypes[type]?.version;
+    if (version) {
+      node.version = version;
+    }
+    const template = this.nodeTypes[type]?.subgraph;
+    if (template) {
+      node.subgraph = cloneSubgraph(template);
+    }
+    this.setState({ nodes: [...this.nodes, node], connections: this.connections });
+    return node;
+  }
+
+  /**
+   * Removes nodes together with every connection attached to them.
+   */
+  deleteNodes(ids: string | string[]): void {
+    const idsToDelete = Array.isArray(ids) ? ids : [ids];
+    this.setState({
+      nodes: this.nodes.filter((n) => !idsToDelete.includes(n.id)),
+      connections: this.connections.filter(
+        (c) => !idsToDelete.includes(c.from.nodeId) && !idsToDelete.includes(c.to.nodeId)
+      ),
+    });
+  }
+
+  moveNode(id: string, x: number, y: number, options: SetStateOptions = {}): void {
+    this.setState({
+      nodes: this.nodes.map((n) => (n.id === id ? { ...n, x, y } : n)),
+      connections: this.connections,
+    }, options);
+  }
+
+  /**
+   * Changes the selection without adding an undo step. `null` deselects all
+   * nodes, an array selects exactly those nodes, a single id selects only
+   * that node - or flips its selection when `toggle` is set.
+   */
+  select(id: string | string[] | null, options: { toggle?: boolean } = {}): void {
+    let nodes: NodeData[];
+    if (id === null) {
+      nodes = this.nodes.map((n) => ({ ...n, selected: false }));
+    } else if (Array.isArray(id)) {
+      nodes = this.nodes.map((n) => ({ ...n, selected: id.includes(n.id) }));
+    } else if (options.toggle) {
+      nodes = this.nodes.map((n) => (n.id === id ? { ...n, selected: !n.selected } : n));
+    } else {
+      nodes = this.nodes.map((n) => ({ ...n, selected: n.id === id }));
+    }
+    this.setState({ nodes, connections: this.connections }, { replace: true });
+  }
+
+  setNodeValue(id: string, portName: string, value: any): void {
+    this.setState({
+      nodes: this.nodes.map((n) =>
+        n.id === id ? { ...n, data: { ...n.data, [portName]: value } } : n
+      ),
+      connections: this.connections,
+    });
+  }
+
+  /**
+   * Gives a node another type, e.g. to replace a type that is no longer
+   * registered. The node keeps its data (new ports start with their defaults)
+   * and the connections whose ports the new type has; the others are dropped.
+   */
+  remapNodeType(id: string, type: string): void {
+    const node = this.nodes.find((n) => n.id === id);
+    const typeDef = this.nodeTypes[type];
+    if (!node || !typeDef) return;
+
+    const { typeArgs: _typeArgs, version: _version, ...rest } = node;
+    const remapped: NodeData = { ...rest, type, data: { ...getPortDefaults(typeDef), ...node.data } };
+    if (typeDef.version) {
+      remapped.version = typeDef.version;
+    }
+    if (typeDef.subgraph && !node.subgraph) {
+      remapped.subgraph = cloneSubgraph(typeDef.subgraph);
+    }
+    const remappedDef = getNodeTypeDef(remapped, this.nodeTypes)!;
+    const has = (ports: { name: string }[], name: string) => ports.some((p) => p.name === name);
+
+    this.setState({
+      nodes: this.nodes.map((n) => (n.id === id ? remapped : n)),
+      connections: this.connections.filter(
+        (c) => (c.from.nodeId !== id || has(remappedDef.outputs, c.from.port)) &&
+          (c.to.nodeId !== id || has(remappedDef.inputs, c.to.port))
+      ),
+    });
+  }
+
+  /**
+   * Adds pasted nodes, selecting them and deselecting everything else.
+   */
+  pasteNodes(newNodes: NodeData[]): void {
+    const deselectedNodes = this.nodes.map((n) => ({ ...n, selected: false }));
+    const nodesWithSelection = newNodes.map((n) => ({
+      ...n,
+      data: n.data ?? {},
+      selected: n.selected ?? true,
+      // Pasted groups get their own copy of the inner graph
+      ...(n.subgraph ? { subgraph: cloneSubgraph(n.subgraph) } : {}),
+    }));
+
+    this.setState({
+      nodes: [...deselectedNodes, ...nodesWithSelection],
+      connections: this.connections,
+    });
+  }
+
+  /**
+   * Returns why a connection would be rejected, or null when it is valid.
+   */
+  validateConnection(candidate: Connection): string | null {
+    return validateConnection(candidate, this.getState(), this.nodeTypes, this.conversions, this.validator);
+  }
+
+  /**
+   * Adds a connection if it is valid. Returns the rejection reason otherwise.
+   */
+  connect(candidate: Connection): string | null {
+    const reason = this.validateConnection(candidate);
+    if (reason) return reason;
+
+    this.setState({
+      nodes: this.nodes,
+      connections: [...this.connections, candidate],
+    });
+    return null;
+  }
+
+  /**
+   * Moves a connection to the given position among the connections feeding
+   * the same input, which sets the order of a multi input's values.
+   */
+  moveConnection(connection: Connection, index: number): void {
+    const feedsInput = (c: Connection) =>
+      c.to.nodeId === connection.to.nodeId && c.to.port === connection.to.port;
+    const siblings = this.connections.filter(feedsInput);
+    const from = siblings.findIndex(
+      (c) => c.from.nodeId === connection.from.nodeId && c.from.port === connection.from.port
+    );
+    if (from === -1 || index < 0 || index >= siblings.length || index === from) return;
+
+    const reordered = [...siblings];
+    reordered.splice(index, 0, ...reordered.splice(from, 1));
+    // The input's connections keep the slots they occupied in the list
+    let next = 0;
+    this.setState({
+      nodes: this.nodes,
+      connections: this.connections.map((c) => (feedsInput(c) ? reordered[next++] : c)),
+    });
+  }
+
+  disconnect(connection: Connection): void {
+    this.setState({
+      nodes: this.nodes,
+      connections: this.connections.filter(
+        (c) => c !== connection &&
+          !(c.from.nodeId === connection.from.nodeId &&
+            c.from.port === connection.from.port &&
+            c.to.nodeId === connection.to.nodeId &&
+            c.to.port === connection.to.port)
+      ),
+    });
+  }
+
+  /**
+   * Inserts a node into an existing connection: the connection is replaced by
+   * one into `inputPort` and one out of `outputPort`. Optionally moves the node
+   * (e.g. to snap it onto the line) in the same undo step. Both new connections
+   * go through `validateConnection`; returns the rejection reason, leaving the
+   * graph unchanged, when either is refused.
+   */
+  spliceNode(nodeId: string, connectionToRemove: Connection, inputPort: string, outputPort: string, newX?: number, newY?: number): string | null {
+    const connectionIn: Connection = {
+      from: connectionToRemove.from,
+      to: { nodeId, port: inputPort },
+    };
+    const connectionOut: Connection = {
+      from: { nodeId, port: outputPort },
+      to: connectionToRemove.to,
+    };
+
+    const remaining = this.connections.filter((c) => c !== connectionToRemove);
+    const check = (candidate: Connection, connections: Connection[]) =>
+      validateConnection(candidate, { nodes: this.nodes, connections }, this.nodeTypes, this.conversions, this.validator);
+    const reason = check(connectionIn, remaining) ?? check(connectionOut, [...remaining, connectionIn]);
+    if (reason) return reason;
+
+    const nodes = newX !== undefined && newY !== undefined
+      ? this.nodes.map((n) => (n.id === nodeId ? { ...n, x: newX, y: newY } : n))
+      : this.nodes;
+
+    this.setState({
+      nodes,
+      connections: [...remaining, connectionIn, connectionOut],
+    });
+    return null;
+  }
+
+  /**
+   * Collapses the given nodes into a new, selected group node and returns its
+   * id. Throws with a user-facing message when the nodes cannot be grouped.
+   */
+  groupNodes(ids: string[], title?: string): string {
+    const { state, groupId } = groupNodes(this.getState(), ids, this.nodeTypes, title);
+    this.setState(state);
+    return groupId;
+  }
+
+  /**
+   * Adds a port to a node whose type allows runtime ports. Returns the name of
+   * the new port, or null when the node takes no more ports.
+   */
+  addPort(nodeId: string, direction: PortDirection): string | null {
+    const result = addInstancePort(this.getState(), nodeId, direction, this.nodeTypes);
+    if (!result) return null;
+    this.setState(result.state);
+    return result.name;
+  }
+
+  /**
+   * Removes a port added at runtime together with its connections.
+   */
+  removePort(nodeId: string, direction: PortDirection, name: string): void {
+    const state = removeInstancePort(this.getState(), nodeId, direction, name);
+    if (state !== this.getState()) {
+      this.setState(state);
+    }
+  }
+
+  /**
+   * Replaces a group node by the nodes of its subgraph.
+   */
+  ungroupNode(id: string): void {
+    this.setState(ungroupNode(this.getState(), id));
+  }
+
+  /**
+   * Opens the inner graph of a group node for editing.
+   */
+  getSubgraph(groupId: string): Graph {
+    const child = new Graph({
+      nodeTypes: this.nodeTypes,
+      cacheSize: this.cacheSize,
+      conversions: this.conversions,
+      validateConnection: this.validator,
+      assets: this.assets,
+    });
+    child.owner = { graph: this, groupId };
+    return child;
+  }
+
+  /**
+   * Replaces the inner graph of a group node. Group ports bound to removed
+   * inner nodes are dropped together with their connections.
+   */
+  setSubgraph(groupId: string, state: GraphState, options: SetStateOptions = {}): void {
+    const group = this.nodes.find((n) => n.id === groupId);
+    if (!group?.subgraph) return;
+
+    const subgraph = withInnerGraph(group.subgraph, state);
+    const typeDef = getNodeTypeDef({ ...group, subgraph }, this.nodeTypes)!;
+    const ports = new Set([...typeDef.inputs, ...typeDef.outputs].map((p) => p.name));
+
+    this.setState({
+      nodes: this.nodes.map((n) => (n.id === groupId ? { ...n, subgraph } : n)),
+      connections: this.connections.filter(
+        (c) => (c.from.nodeId !== groupId || ports.has(c.from.port)) &&
+          (c.to.nodeId !== groupId || ports.has(c.to.port))
+      ),
+    }, options);
+  }
+
+  /**
+   * Evaluates the present state with the node types' compute functions.
+   * Evaluation is incremental across calls. Use `evaluateAsync` when compute
+   * functions return Promises or assets still have to be loaded.
+   */
+  evaluate(): GraphResults {
+    if (!this.evaluator) {
+      this.evaluator = new GraphEvaluator(this.nodeTypes, { cacheSize: this.cacheSize, conversions: this.conversions });
+    }
+    return this.evaluator.update(this.resolvedNodes(), this.connections);
+  }
+
+  /**
+   * Evaluates the present state and waits for asynchronous nodes to settle.
+   */
+  async evaluateAsync(): Promise<GraphResults> {
+    await this.loadAssets();
+    this.evaluate();
+    return this.evaluator!.whenIdle();
+  }
+
+  /**
+   * Runs the present state's execution flow, see `runExecution`.
+   */
+  async execute(options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    await this.loadAssets();
+    return runExecution(this.resolvedNodes(), this.connections, this.nodeTypes, { conversions: this.conversions, ...options });
+  }
+
+  private loadAssets(): Promise<void> {
+    return this.assets ? this.assets.load(collectAssetRefs(this.nodes, this.nodeTypes)) : Promise.resolve();
+  }
+
+  // Nodes as compute functions see them, with asset references resolved
+  private resolvedNodes(): NodeData[] {
+    return this.assets ? resolveAssets(this.nodes, this.nodeTypes, this.assets) : this.nodes;
+  }
+
+  /**
+   * Status of every node after the last evaluation.
+   */
+  getNodeStates(): GraphNodeStates {
+    return this.evaluator?.getNodeStates() ?? {};
+  }
+
+  /**
+   * Aborts pending evaluation runs and removes all listeners.
+   */
+  dispose(): void {
+    this.evaluator?.dispose();
+    this.evaluator = null;
+    this.listeners.clear();
+  }
+}
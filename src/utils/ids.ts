@@ -0,0 +1 @@
+export const createNodeId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
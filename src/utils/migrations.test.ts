@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { migrateGraphFile } from "./migrations";
+import { GRAPH_FORMAT_VERSION, serializeGraph } from "./serialize";
+import { deserializeGraph } from "./deserialize";
+
+const nodes = [{ id: "a", type: "number", x: 1, y: 2, data: { Value: 3 } }];
+
+describe("migrateGraphFile", () => {
+  it("reads files of the current version", () => {
+    const file = JSON.parse(serializeGraph(nodes, []));
+    expect(file.version).toBe(GRAPH_FORMAT_VERSION);
+    expect(migrateGraphFile(file)).toEqual(file.graph);
+  });
+
+  it("upgrades files written before the envelope", () => {
+    const { graph } = JSON.parse(serializeGraph(nodes, []));
+    expect(migrateGraphFile(graph)).toEqual(graph);
+    expect(deserializeGraph(JSON.stringify(graph)).nodes).toMatchObject([{ id: "a", x: 1, y: 2, data: { Value: 3 } }]);
+  });
+
+  it("rejects files of newer or missing versions", () => {
+    expect(() => migrateGraphFile({ version: GRAPH_FORMAT_VERSION + 1, graph: [[], []] })).toThrow(/update the library/);
+    expect(() => migrateGraphFile({ graph: [[], []] })).toThrow(/missing format version/);
+  });
+});
@@ -0,0 +1,40 @@
+import { SerializedGraph, SerializedGraphFile, GRAPH_FORMAT_VERSION } from "./serialize";
+
+/**
+ * Upgrades a serialized graph by one format version.
+ */
+type Migration = (graph: any) => any;
+
+// migrations[n] turns a graph of format version n into version n + 1. Bump
+// GRAPH_FORMAT_VERSION and add a step here whenever the serialized layout changes.
+const migrations: Record<number, Migration> = {
+  // Version 1 files are the bare [nodes, connections] tuple the envelope now wraps
+  1: (graph) => graph,
+};
+
+/**
+ * Reads the format version of a parsed graph file and upgrades its graph step
+ * by step to the current version. Files without the envelope are version 1.
+ * Throws on files written by a newer version of the library, instead of
+ * misreading their fields.
+ */
+export function migrateGraphFile(file: unknown): SerializedGraph {
+  const { version, graph } = Array.isArray(file)
+    ? { version: 1, graph: file }
+    : (file ?? {}) as Partial<SerializedGraphFile>;
+
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("Invalid graph file: missing format version");
+  }
+  if (version > GRAPH_FORMAT_VERSION) {
+    throw new Error(
+      `Graph file has format version ${version}, but this version of the library reads up to version ${GRAPH_FORMAT_VERSION}; update the library to load it`
+    );
+  }
+
+  let upgraded: any = graph;
+  for (let v = version; v < GRAPH_FORMAT_VERSION; v++) {
+    upgraded = migrations[v](upgraded);
+  }
+  return upgraded;
+}
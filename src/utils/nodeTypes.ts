@@ -0,0 +1,203 @@
+import { NodeData, NodeTypeDef, PortDef, Subgraph, Connection } from "../components/Node/node";
+import { ANY_TYPE } from "./conversions";
+
+/**
+ * `type` of group nodes. Their type definition is derived from the subgraph
+ * and does not have to be registered.
+ */
+export const GROUP_NODE_TYPE = "group";
+
+/**
+ * Types of the nodes inside the body of a map node: the input node provides
+ * the current item and its index, the output node collects one result per
+ * iteration. Their port types come from `data.itemType` / `data.resultType`.
+ */
+export const MAP_INPUT_TYPE = "map-input";
+export const MAP_OUTPUT_TYPE = "map-output";
+
+// Derived definitions are cached so that their port arrays keep their
+// identity across renders
+const derivedTypes = new WeakMap<Subgraph, NodeTypeDef>();
+const boundaryTypes = new Map<string, NodeTypeDef>();
+
+/**
+ * Type definition of a node: the registered one for its `type` (with the
+ * node's own ports appended and its bound type variables filled in), or the
+ * one derived from the exposed ports of a group or map node. Use this instead
+ * of indexing `nodeTypes` directly.
+ */
+export function getNodeTypeDef(
+  node: NodeData,
+  nodeTypes: Record<string, NodeTypeDef>
+): NodeTypeDef | undefined {
+  if (node.type === MAP_INPUT_TYPE || node.type === MAP_OUTPUT_TYPE) {
+    return getBoundaryTypeDef(node);
+  }
+  if (!node.subgraph) {
+    const typeDef = nodeTypes[node.type];
+    return typeDef && bindTypeVariables(withInstancePorts(typeDef, node), node.typeArgs);
+  }
+
+  let typeDef = derivedTypes.get(node.subgraph);
+  if (!typeDef) {
+    const { subgraph } = node;
+    const toPortDef = ({ name, type, kind }: PortDef): PortDef => ({ name, type, kind });
+
+    typeDef = subgraph.iterate
+      ? {
+        id: node.type,
+        title: subgraph.title ?? "For Each",
+        category: "Loop",
+        inputs: [{ name: "Items", type: "list" }, ...subgraph.inputs.map(toPortDef)],
+        // Exposed outputs are collected into one list each, like Results
+        outputs: [
+          { name: "Results", type: "list" },
+          { name: "Count", type: "number" },
+          ...subgraph.outputs.map(({ name }) => ({ name, type: "list" })),
+        ],
+      }
+      : {
+        id: node.type,
+        title: subgraph.title ?? "Group",
+        category: "Group",
+        inputs: subgraph.inputs.map(toPortDef),
+        outputs: subgraph.outputs.map(toPortDef),
+      };
+    derivedTypes.set(subgraph, typeDef);
+  }
+  return typeDef;
+}
+
+function getBoundaryTypeDef(node: NodeData): NodeTypeDef {
+  const isInput = node.type === MAP_INPUT_TYPE;
+  // Nodes built without a type accept anything
+  const type = (isInput ? node.data?.itemType : node.data?.resultType) ?? ANY_TYPE;
+  const key = `${node.type}:${type}`;
+
+  let typeDef = boundaryTypes.get(key);
+  if (!typeDef) {
+    typeDef = isInput
+      ? {
+        id: MAP_INPUT_TYPE,
+        title: "Iteration",
+        inputs: [],
+        outputs: [{ name: "Item", type }, { name: "Index", type: "number" }],
+      }
+      : {
+        id: MAP_OUTPUT_TYPE,
+        title: "Collect",
+        inputs: [{ name: "Result", type }],
+        outputs: [],
+        // Results keep the resolved inputs, which is all the map node needs
+        compute: () => ({}),
+      };
+    boundaryTypes.set(key, typeDef);
+  }
+  return typeDef;
+}
+
+/**
+ * Whether a port's type is one of its node type's type variables.
+ */
+export function isTypeVariable(typeDef: NodeTypeDef, port: PortDef): boolean {
+  return !!typeDef.typeParams?.includes(port.type);
+}
+
+// Substituted definitions are cached per node type and bindings so that their
+// port arrays keep their identity across renders
+const boundTypes = new WeakMap<NodeTypeDef, Map<string, NodeTypeDef>>();
+
+/**
+ * The node type with its type variables replaced by the given bindings.
+ * Unbound variables are left in place.
+ */
+export function bindTypeVariables(typeDef: NodeTypeDef, typeArgs: Record<string, string> | undefined): NodeTypeDef {
+  if (!typeDef.typeParams || !typeArgs) return typeDef;
+
+  const key = typeDef.typeParams.map((param) => typeArgs[param] ?? "").join("\u0000");
+  let cache = boundTypes.get(typeDef);
+  if (!cache) {
+    cache = new Map();
+    boundTypes.set(typeDef, cache);
+  }
+
+  let bound = cache.get(key);
+  if (!bound) {
+    const bind = (port: PortDef): PortDef =>
+      isTypeVariable(typeDef, port) && typeArgs[port.type] ? { ...port, type: typeArgs[port.type] } : port;
+    bound = { ...typeDef, inputs: typeDef.inputs.map(bind), outputs: typeDef.outputs.map(bind) };
+    cache.set(key, bound);
+  }
+  return bound;
+}
+
+const NO_PORTS: PortDef[] = [];
+const extendedTypes = new WeakMap<NodeTypeDef, WeakMap<PortDef[], WeakMap<PortDef[], NodeTypeDef>>>();
+
+/**
+ * The node type with the ports added to the node at runtime appended to its
+ * own.
+ */
+export function withInstancePorts(typeDef: NodeTypeDef, node: NodeData): NodeTypeDef {
+  if (!node.inputs?.length && !node.outputs?.length) return typeDef;
+  const inputs = node.inputs ?? NO_PORTS;
+  const outputs = node.outputs ?? NO_PORTS;
+
+  let byInputs = extendedTypes.get(typeDef);
+  if (!byInputs) {
+    byInputs = new WeakMap();
+    extendedTypes.set(typeDef, byInputs);
+  }
+  let byOutputs = byInputs.get(inputs);
+  if (!byOutputs) {
+    byOutputs = new WeakMap();
+    byInputs.set(inputs, byOutputs);
+  }
+
+  let extended = byOutputs.get(outputs);
+  if (!extended) {
+    extended = { ...typeDef, inputs: [...typeDef.inputs, ...inputs], outputs: [...typeDef.outputs, ...outputs] };
+    byOutputs.set(outputs, extended);
+  }
+  return extended;
+}
+
+// Per node, so that entries go away with the node objects they were made for
+const placeholderTypes = new WeakMap<NodeData, { key: string; typeDef: NodeTypeDef }>();
+
+/**
+ * Stand-in definition for a node whose type is not registered (renamed or
+ * removed), so that it can still be shown and reconnected. Its ports are the
+ * ones its connections and stored data refer to, typed `ANY_TYPE`.
+ */
+export function getPlaceholderTypeDef(node: NodeData, connections: Connection[]): NodeTypeDef {
+  const outputs = new Set<string>(node.outputs?.map((p) => p.name));
+  connections.forEach((c) => {
+    if (c.from.nodeId === node.id) outputs.add(c.from.port);
+  });
+  const inputs = new Set<string>(node.inputs?.map((p) => p.name));
+  connections.forEach((c) => {
+    if (c.to.nodeId === node.id) inputs.add(c.to.port);
+  });
+  // Port names share one namespace, so data of an output is not an input
+  Object.keys(node.data ?? {}).forEach((name) => {
+    if (!outputs.has(name)) inputs.add(name);
+  });
+
+  // The same ports give the same definition, which keeps rendering stable
+  const key = [[...inputs].join("\u0000"), [...outputs].join("\u0000")].join("\u0001");
+  const cached = placeholderTypes.get(node);
+  if (cached?.key === key) return cached.typeDef;
+
+  const toPort = (name: string): PortDef => ({ name, type: ANY_TYPE });
+  const typeDef: NodeTypeDef = {
+    id: node.type,
+    title: node.type,
+    category: "Missing type",
+    color: "#ff6b6b",
+    inputs: [...inputs].map(toPort),
+    outputs: [...outputs].map(toPort),
+  };
+  placeholderTypes.set(node, { key, typeDef });
+  return typeDef;
+}
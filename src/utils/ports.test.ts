@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { NodeTypeDef } from "../components/Node/node";
+import { Graph } from "./graph";
+import { evaluateGraph } from "./evaluate";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  sum: {
+    id: "sum",
+    inputs: [{ name: "A", type: "number" }, { name: "B", type: "number" }],
+    outputs: [{ name: "Sum", type: "number" }],
+    dynamicInputs: { type: "number", max: 2 },
+    compute: (inputs) => ({ Sum: Object.values(inputs).reduce((a: number, b) => a + (b ?? 0), 0) }),
+  },
+};
+
+const link = (from: string, fromPort: string, to: string, toPort: string) => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("instance ports", () => {
+  it("adds ports with the next free name up to the maximum", () => {
+    const graph = new Graph({ nodeTypes });
+    const s = graph.addNode("sum", 0, 0).id;
+    expect(graph.addPort(s, "input")).toBe("C");
+    expect(graph.addPort(s, "input")).toBe("D");
+    expect(graph.addPort(s, "input")).toBeNull();
+    expect(graph.addPort(s, "output")).toBeNull();
+    expect(graph.nodes[0].inputs).toEqual([{ name: "C", type: "number" }, { name: "D", type: "number" }]);
+  });
+
+  it("evaluates added ports like the type's own", () => {
+    const graph = new Graph({ nodeTypes });
+    const n = graph.addNode("number", 0, 0, { Value: 4 }).id;
+    const s = graph.addNode("sum", 0, 0, { A: 1, B: 2 }).id;
+    const port = graph.addPort(s, "input")!;
+    expect(graph.connect(link(n, "Out", s, port))).toBeNull();
+    expect(evaluateGraph(graph.nodes, graph.connections, nodeTypes)[s].Sum).toBe(7);
+  });
+
+  it("removes added ports with their connections and values", () => {
+    const graph = new Graph({ nodeTypes });
+    const n = graph.addNode("number", 0, 0).id;
+    const s = graph.addNode("sum", 0, 0).id;
+    const port = graph.addPort(s, "input")!;
+    graph.setNodeValue(s, port, 3);
+    graph.connect(link(n, "Out", s, port));
+
+    graph.removePort(s, "input", "A");
+    expect(graph.nodes[1].inputs).toHaveLength(1);
+    graph.removePort(s, "input", port);
+    expect(graph.nodes[1].inputs).toBeUndefined();
+    expect(graph.nodes[1].data).not.toHaveProperty(port);
+    expect(graph.connections).toEqual([]);
+  });
+
+  it("saves added ports", () => {
+    const graph = new Graph({ nodeTypes });
+    const s = graph.addNode("sum", 0, 0).id;
+    graph.addPort(s, "input");
+    expect(Graph.fromJSON(graph.toJSON(), nodeTypes).nodes[0].inputs).toEqual(graph.nodes[0].inputs);
+  });
+});
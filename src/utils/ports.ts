@@ -0,0 +1,122 @@
+import { NodeData, NodeTypeDef, PortDef, PortDirection, Connection, EnumOption } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+import { getNodeTypeDef } from "./nodeTypes";
+
+export const isExecPort = (port: PortDef | undefined): boolean => port?.kind === "exec";
+
+/**
+ * Whether a connection carries control flow rather than a value, judged by the
+ * kind of its source port.
+ */
+export function isExecConnection(
+  connection: Connection,
+  nodesById: Map<string, NodeData>,
+  nodeTypes: Record<string, NodeTypeDef>
+): boolean {
+  const node = nodesById.get(connection.from.nodeId);
+  const typeDef = node ? getNodeTypeDef(node, nodeTypes) : undefined;
+  return isExecPort(typeDef?.outputs.find((p) => p.name === connection.from.port));
+}
+
+/**
+ * The options of an enum port, with plain strings expanded. Empty for other
+ * ports.
+ */
+export function getEnumOptions(port: PortDef): EnumOption[] {
+  return (port.options ?? []).map((option) => (typeof option === "string" ? { value: option } : option));
+}
+
+/**
+ * Whether a value may be given to the port: anything for ports without
+ * options, one of the option values (or nothing) for enum ports. The values
+ * of a multi input are checked one by one.
+ */
+export function isAllowedValue(port: PortDef, value: any): boolean {
+  if (!port.options || value === undefined) return true;
+  const values = port.multi && Array.isArray(value) ? value : [value];
+  const options = getEnumOptions(port);
+  return values.every((v) => v === undefined || options.some((option) => option.value === v));
+}
+
+/**
+ * Stored values a new node of the given type starts with: the declared
+ * defaults of its input ports.
+ */
+export function getPortDefaults(typeDef: NodeTypeDef | undefined): Record<string, any> {
+  const defaults: Record<string, any> = {};
+  typeDef?.inputs.forEach((port) => {
+    if (port.default !== undefined && !isExecPort(port)) {
+      defaults[port.name] = port.default;
+    }
+  });
+  return defaults;
+}
+
+// A, B, ..., Z, AA, AB, ...
+const letterName = (index: number): string =>
+  (index >= 26 ? letterName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+/**
+ * Adds a port to a node whose type allows it (see `dynamicInputs` and
+ * `dynamicOutputs`). The port gets the first name offered by the type that no
+ * port of the node uses yet. Returns null when no more ports may be added.
+ */
+export function addInstancePort(
+  state: GraphState,
+  nodeId: string,
+  direction: PortDirection,
+  nodeTypes: Record<string, NodeTypeDef>
+): { state: GraphState; name: string } | null {
+  const node = state.nodes.find((n) => n.id === nodeId);
+  const baseDef = node && nodeTypes[node.type];
+  const key = direction === "input" ? "inputs" : "outputs";
+  const dynamic = direction === "input" ? baseDef?.dynamicInputs : baseDef?.dynamicOutputs;
+  if (!node || !baseDef || !dynamic) return null;
+
+  const added = node[key] ?? [];
+  if (dynamic.max !== undefined && added.length >= dynamic.max) return null;
+
+  // Inputs and outputs share one namespace, like port positions do
+  const typeDef = getNodeTypeDef(node, nodeTypes)!;
+  const used = new Set([...typeDef.inputs, ...typeDef.outputs].map((p) => p.name));
+  const nameAt = dynamic.name ?? letterName;
+  let name = nameAt(0);
+  for (let i = 1; used.has(name); i++) {
+    name = nameAt(i);
+  }
+
+  const port: PortDef = { name, type: dynamic.type };
+  return {
+    name,
+    state: {
+      nodes: state.nodes.map((n) => (n.id === nodeId ? { ...n, [key]: [...added, port] } : n)),
+      connections: state.connections,
+    },
+  };
+}
+
+/**
+ * Removes a port that was added to a node at runtime, together with its
+ * connections and stored value. Ports of the node's type are left alone.
+ */
+export function removeInstancePort(
+  state: GraphState,
+  nodeId: string,
+  direction: PortDirection,
+  name: string
+): GraphState {
+  const key = direction === "input" ? "inputs" : "outputs";
+  const node = state.nodes.find((n) => n.id === nodeId);
+  if (!node?.[key]?.some((p) => p.name === name)) return state;
+
+  const { [name]: _removed, ...data } = node.data ?? {};
+  const ports = node[key]!.filter((p) => p.name !== name);
+  const updated: NodeData = { ...node, data, [key]: ports.length > 0 ? ports : undefined };
+  if (!updated[key]) delete updated[key];
+
+  const end = direction === "input" ? "to" : "from";
+  return {
+    nodes: state.nodes.map((n) => (n.id === nodeId ? updated : n)),
+    connections: state.connections.filter((c) => c[end].nodeId !== nodeId || c[end].port !== name),
+  };
+}
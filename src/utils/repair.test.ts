@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { GraphProblem, repairGraph } from "./repair";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+  },
+  mode: {
+    id: "mode",
+    inputs: [{ name: "Mode", type: "enum", options: ["a", "b"] }],
+    outputs: [],
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any> = {}): NodeData => ({ id, type, x: 0, y: 0, data });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+const repair = (nodes: NodeData[], connections: Connection[] = []) => {
+  const problems: GraphProblem[] = [];
+  const graph = repairGraph({ nodes, connections }, nodeTypes, (message, nodeId) =>
+    problems.push({ severity: "repaired", message, nodeId })
+  );
+  return { graph, problems };
+};
+
+describe("repairGraph", () => {
+  it("returns valid graphs untouched", () => {
+    const state = { nodes: [node("a", "number", { Value: 1 }), node("b", "number")], connections: [link("a", "Out", "b", "Value")] };
+    expect(repairGraph(state, nodeTypes, () => {})).toBe(state);
+  });
+
+  it("drops duplicate nodes and invalid values", () => {
+    const { graph, problems } = repair([
+      node("a", "number", { Value: "x" }),
+      node("a", "number"),
+      node("m", "mode", { Mode: "c" }),
+    ]);
+    expect(graph.nodes.map((n) => n.id)).toEqual(["a", "m"]);
+    expect(graph.nodes[0].data).toEqual({});
+    expect(graph.nodes[1].data).toEqual({});
+    expect(problems).toHaveLength(3);
+  });
+
+  it("drops connections to missing nodes and ports and duplicate inputs", () => {
+    const { graph, problems } = repair(
+      [node("a", "number"), node("b", "number"), node("c", "number")],
+      [
+        link("a", "Out", "c", "Value"),
+        link("b", "Out", "c", "Value"),
+        link("a", "Out", "x", "Value"),
+        link("a", "Nope", "b", "Value"),
+      ]
+    );
+    expect(graph.connections).toEqual([link("a", "Out", "c", "Value")]);
+    expect(problems.map((p) => p.message)).toEqual([
+      "Dropped connection b.Out → c.Value: input \"Value\" is already connected",
+      "Dropped connection a.Out → x.Value to a missing node",
+      "Dropped connection a.Nope → b.Value to a missing port",
+    ]);
+  });
+
+  it("drops connections the built-in connection checks refuse", () => {
+    const types: Record<string, NodeTypeDef> = {
+      ...nodeTypes,
+      text: { id: "text", inputs: [{ name: "Text", type: "string" }], outputs: [{ name: "Out", type: "string" }] },
+      start: { id: "start", inputs: [], outputs: [{ name: "Then", type: "exec", kind: "exec" }] },
+    };
+    const problems: string[] = [];
+    const state = {
+      nodes: [node("a", "number"), node("b", "number"), node("t", "text"), node("s", "start")],
+      connections: [
+        link("a", "Out", "t", "Text"),
+        link("s", "Then", "a", "Value"),
+        link("a", "Out", "b", "Value"),
+        link("b", "Out", "a", "Value"),
+      ],
+    };
+    const graph = repairGraph(state, types, (message) => problems.push(message));
+    expect(graph.connections).toEqual([link("a", "Out", "b", "Value")]);
+    expect(problems).toEqual([
+      "Dropped connection a.Out → t.Text: Cannot connect ports of different types: number and string",
+      "Dropped connection s.Then → a.Value: Cannot connect an execution port to a data port",
+      "Dropped connection b.Out → a.Value: This connection would create a cycle; close loops through a feedback node",
+    ]);
+
+    const converted = repairGraph(state, types, () => {}, [{ from: "number", to: "string" }]);
+    expect(converted.connections).toContainEqual(link("a", "Out", "t", "Text"));
+  });
+
+  it("keeps nodes of unknown types as placeholders", () => {
+    const { graph, problems } = repair([node("u", "unknown", { Value: 1 })]);
+    expect(graph.nodes[0].data).toEqual({ Value: 1 });
+    expect(problems[0].message).toMatch(/not registered/);
+  });
+});
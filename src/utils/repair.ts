@@ -0,0 +1,249 @@
+import { NodeData, NodeTypeDef, Connection, PortDef } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+import { SerializedGraph, SerializedNode } from "./serialize";
+import { getNodeTypeDef, getPlaceholderTypeDef } from "./nodeTypes";
+import { isAllowedValue, isExecPort } from "./ports";
+import { withInnerGraph } from "./subgraph";
+import { validateConnection } from "./validation";
+import { TypeConversion } from "./conversions";
+
+/**
+ * Something wrong with a loaded graph. Fatal problems leave nothing to load;
+ * repaired ones were fixed by dropping or resetting the offending part.
+ */
+export interface GraphProblem {
+  severity: "fatal" | "repaired";
+  message: string;
+  nodeId?: string; // node the problem was found on (or in, for group nodes), if any
+}
+
+type Report = (message: string, nodeId?: string) => void;
+
+const isObject = (value: any): boolean => typeof value === "object" && value !== null && !Array.isArray(value);
+const isNumberArray = (value: any, length: number): boolean =>
+  Array.isArray(value) && value.length === length && value.every((v) => typeof v === "number" && Number.isFinite(v));
+const isStringTuple = (value: any, length: number): boolean =>
+  Array.isArray(value) && value.length === length && value.every((v) => typeof v === "string");
+
+/**
+ * Values the built-in port types accept. Other types accept anything.
+ */
+const valueChecks: Record<string, (value: any) => boolean> = {
+  number: (v) => typeof v === "number" && Number.isFinite(v),
+  string: (v) => typeof v === "string",
+  boolean: (v) => typeof v === "boolean",
+  Vec2: (v) => isNumberArray(v, 2),
+  Vec3: (v) => isNumberArray(v, 3),
+  color: (v) => isNumberArray(v, 3) || isNumberArray(v, 4),
+  image: (v) => typeof v === "string",
+  list: Array.isArray,
+};
+
+/**
+ * Whether a stored value fits the port: its type's shape, the options of an
+ * enum, the fields of a struct or, for multi inputs, a list of such values.
+ * Missing values always fit.
+ */
+export function isValidPortValue(port: PortDef, value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (port.multi) {
+    return Array.isArray(value) && value.every((v) => isValidPortValue({ ...port, multi: false }, v));
+  }
+  if (port.options) return isAllowedValue(port, value);
+  if (port.fields) {
+    return isObject(value) && port.fields.every((field) => isValidPortValue(field, value[field.name]));
+  }
+  return valueChecks[port.type]?.(value) ?? true;
+}
+
+/**
+ * Checks the layout of a serialized graph before it is read, so that reading
+ * cannot fail on it. Malformed nodes, connections and ports are left out,
+ * invalid positions reset to 0 and malformed optional fields dropped. Returns
+ * null when the input is not a graph at all.
+ */
+export function checkSerializedGraph(state: any, report: Report): SerializedGraph | null {
+  if (!Array.isArray(state) || state.length !== 2 || !Array.isArray(state[0]) || !Array.isArray(state[1])) {
+    return null;
+  }
+  return [checkNodes(state[0], report), checkConnections(state[1], report)];
+}
+
+function checkNodes(nodes: any[], report: Report): SerializedNode[] {
+  const checked: SerializedNode[] = [];
+  nodes.forEach((n, index) => {
+    if (!Array.isArray(n) || n.length < 4 || typeof n[0] !== "string" || !n[0] || typeof n[1] !== "string") {
+      report(`Dropped malformed node at index ${index}`);
+      return;
+    }
+    const id = n[0];
+    const node = [...n];
+
+    [2, 3].forEach((i) => {
+      if (typeof node[i] !== "number" || !Number.isFinite(node[i])) {
+        report(`Reset invalid ${i === 2 ? "x" : "y"} position to 0`, id);
+        node[i] = 0;
+      }
+    });
+    if (node[4] != null && !isObject(node[4])) {
+      report("Dropped malformed data", id);
+      node[4] = undefined;
+    }
+    [5, 6].forEach((i) => {
+      if (node[i] != null && (typeof node[i] !== "number" || !Number.isFinite(node[i]))) {
+        report(`Dropped invalid ${i === 5 ? "width" : "height"}`, id);
+        node[i] = undefined;
+      }
+    });
+    if (node[7] != null) {
+      node[7] = checkSubgraph(node[7], id, report);
+    }
+    if (node[8] != null) {
+      const ports = node[8];
+      const valid = Array.isArray(ports) && ports.length === 2 &&
+        ports.every((list: any) => Array.isArray(list) && list.every((p: any) => isStringTuple(p, 2)));
+      if (!valid) {
+        report("Dropped malformed ports", id);
+        node[8] = undefined;
+      }
+    }
+    if (node[9] != null && (typeof node[9] !== "number" || !Number.isInteger(node[9]) || node[9] < 1)) {
+      report("Dropped invalid type version", id);
+      node[9] = undefined;
+    }
+    checked.push(node);
+  });
+  return checked;
+}
+
+function checkConnections(connections: any[], report: Report): (string | number)[][] {
+  return connections.filter((c, index) => {
+    if (isStringTuple(c, 4)) return true;
+    report(`Dropped malformed connection at index ${index}`);
+    return false;
+  });
+}
+
+function checkSubgraph(subgraph: any, nodeId: string, report: Report): any[] | undefined {
+  if (!Array.isArray(subgraph) || subgraph.length < 4 || !subgraph.slice(0, 4).every(Array.isArray)) {
+    report("Dropped malformed subgraph", nodeId);
+    return undefined;
+  }
+  const [nodes, connections, inputs, outputs, ...rest] = subgraph;
+  const validInput = (i: any) => Array.isArray(i) && i.length === 3 && isStringTuple(i.slice(0, 2), 2) &&
+    Array.isArray(i[2]) && i[2].every((t: any) => isStringTuple(t, 2));
+  const checkedInputs = inputs.filter(validInput);
+  const checkedOutputs = outputs.filter((o: any) => isStringTuple(o, 4));
+  if (checkedInputs.length < inputs.length || checkedOutputs.length < outputs.length) {
+    report("Dropped malformed group ports", nodeId);
+  }
+  const inner: Report = (message, innerId) => report(innerId ? `${message} (inner node "${innerId}")` : message, nodeId);
+  return [checkNodes(nodes, inner), checkConnections(connections, inner), checkedInputs, checkedOutputs, ...rest];
+}
+
+/**
+ * Makes a graph consistent with the node types: duplicate ids, stored values
+ * their ports do not accept and connections to missing nodes or ports (or
+ * more than one into a single-value input) are dropped, also inside groups.
+ * The remaining connections are replayed in order through the built-in
+ * connection checks (`validateConnection` without app rules), which drops
+ * connections between incompatible types (given the conversions), between
+ * exec and data ports and those closing a cycle. Nodes of unknown types are
+ * kept as they are, to be shown as placeholders (see `getPlaceholderTypeDef`).
+ * Every fix is reported.
+ */
+export function repairGraph(
+  state: GraphState,
+  nodeTypes: Record<string, NodeTypeDef>,
+  report: Report,
+  conversions: TypeConversion[] = []
+): GraphState {
+  const seen = new Set<string>();
+  const nodes: NodeData[] = [];
+
+  state.nodes.forEach((n) => {
+    if (seen.has(n.id)) {
+      report("Dropped node with a duplicate id", n.id);
+      return;
+    }
+    seen.add(n.id);
+
+    let node = n;
+    if (n.subgraph) {
+      const inner: Report = (message, innerId) => report(innerId ? `${message} (inner node "${innerId}")` : message, n.id);
+      const repaired = repairGraph(n.subgraph, nodeTypes, inner, conversions);
+      if (repaired !== n.subgraph) {
+        node = { ...n, subgraph: withInnerGraph(n.subgraph, repaired) };
+      }
+    }
+
+    const typeDef = getNodeTypeDef(node, nodeTypes);
+    if (!typeDef) {
+      // Kept untouched so that remapping it to a registered type loses nothing
+      report(`Node type "${n.type}" is not registered; kept as a placeholder`, n.id);
+      nodes.push(node);
+      return;
+    }
+
+    const invalid = typeDef.inputs.filter((port) => !isExecPort(port) && !isValidPortValue(port, node.data?.[port.name]));
+    if (invalid.length > 0) {
+      const data = { ...node.data };
+      invalid.forEach((port) => {
+        report(`Dropped invalid value ${JSON.stringify(data[port.name])} of input "${port.name}"`, n.id);
+        delete data[port.name];
+      });
+      node = { ...node, data };
+    }
+    nodes.push(node);
+  });
+
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const links = new Set<string>();
+  const fedInputs = new Set<string>();
+  const connections: Connection[] = [];
+  state.connections.forEach((c: Connection) => {
+    const describe = `${c.from.nodeId}.${c.from.port} → ${c.to.nodeId}.${c.to.port}`;
+    const source = nodesById.get(c.from.nodeId);
+    const target = nodesById.get(c.to.nodeId);
+    if (!source || !target) {
+      report(`Dropped connection ${describe} to a missing node`);
+      return;
+    }
+    // Placeholders have whatever ports their connections need
+    const sourceDef = getNodeTypeDef(source, nodeTypes) ?? getPlaceholderTypeDef(source, state.connections);
+    const targetDef = getNodeTypeDef(target, nodeTypes) ?? getPlaceholderTypeDef(target, state.connections);
+    const from = sourceDef.outputs.find((p) => p.name === c.from.port);
+    const to = targetDef.inputs.find((p) => p.name === c.to.port);
+    if (!from || !to) {
+      report(`Dropped connection ${describe} to a missing port`, from ? target.id : source.id);
+      return;
+    }
+
+    const input = `${c.to.nodeId}-${c.to.port}`;
+    const link = `${c.from.nodeId}-${c.from.port}-${input}`;
+    if (links.has(link)) {
+      report(`Dropped duplicate connection ${describe}`, target.id);
+      return;
+    }
+    if (fedInputs.has(input) && !to.multi && !isExecPort(to)) {
+      report(`Dropped connection ${describe}: input "${to.name}" is already connected`, target.id);
+      return;
+    }
+    // Types, exec/data and cycles, checked against the connections kept so
+    // far; placeholders are left alone, their ports fit any connection
+    if (getNodeTypeDef(source, nodeTypes) && getNodeTypeDef(target, nodeTypes)) {
+      const reason = validateConnection(c, { nodes, connections }, nodeTypes, conversions);
+      if (reason) {
+        report(`Dropped connection ${describe}: ${reason}`, target.id);
+        return;
+      }
+    }
+    links.add(link);
+    fedInputs.add(input);
+    connections.push(c);
+  });
+
+  const unchanged = connections.length === state.connections.length &&
+    nodes.length === state.nodes.length && nodes.every((n, i) => n === state.nodes[i]);
+  return unchanged ? state : { nodes, connections };
+}
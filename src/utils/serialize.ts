@@ -1,9 +1,45 @@
-import { NodeData, Connection } from "../components/Node/node";
+import { NodeData, Connection, PortDef, Subgraph } from "../components/Node/node";
+
+export type SerializedNode = (string | number | Record<string, any> | SerializedSubgraph | SerializedPorts | undefined)[];
+
+/**
+ * Ports added to a node at runtime: inputs and outputs as [name, type] pairs.
+ */
+export type SerializedPorts = [[string, string][], [string, string][]];
+
+/**
+ * Nested graph of a group node: inner nodes and connections, inputs as
+ * [name, type, [[nodeId, port], ...]], outputs as [name, type, nodeId, port],
+ * an optional title and 1 for the body of a map node.
+ */
+export type SerializedSubgraph = [
+  SerializedNode[],
+  (string | number)[][],
+  [string, string, [string, string][]][],
+  [string, string, string, string][],
+  (string | null)?,
+  1?
+];
 
 export type SerializedGraph = [
-  (string | number | Record<string, any> | undefined)[][],
+  SerializedNode[],
   (string | number)[][]
 ];
+
+/**
+ * Version of the layout written by `serializeGraph`. Files of older versions
+ * are upgraded on load (see migrations.ts).
+ */
+export const GRAPH_FORMAT_VERSION = 2;
+
+/**
+ * What `serializeGraph` writes: the graph tuple wrapped with its format version.
+ */
+export interface SerializedGraphFile {
+  version: number;
+  graph: SerializedGraph;
+}
+
 /**
  * Serializes the current graph state (nodes and connections) to a compact JSON string.
  */
@@ -11,8 +47,17 @@ export function serializeGraph(
   nodes: NodeData[],
   connections: Connection[]
 ): string {
-  const serializedNodes = nodes.map((n) => {
-    const node: (string | number | Record<string, any> | undefined)[] = [
+  const file: SerializedGraphFile = {
+    version: GRAPH_FORMAT_VERSION,
+    graph: [serializeNodes(nodes), serializeConnections(connections)],
+  };
+
+  return JSON.stringify(file);
+}
+
+function serializeNodes(nodes: NodeData[]): SerializedNode[] {
+  return nodes.map((n) => {
+    const node: SerializedNode = [
       n.id,
       n.type,
       Math.round(n.x),
@@ -40,6 +85,23 @@ export function serializeGraph(
       node.push(undefined);
     }
 
+    if (n.subgraph) {
+      node.push(serializeSubgraph(n.subgraph));
+    } else {
+      node.push(undefined);
+    }
+
+    if (n.inputs?.length || n.outputs?.length) {
+      const pairs = (ports: PortDef[] = []) => ports.map((p): [string, string] => [p.name, p.type]);
+      node.push([pairs(n.inputs), pairs(n.outputs)]);
+    } else {
+      node.push(undefined);
+    }
+
+    if (n.version && n.version > 1) {
+      node.push(n.version);
+    }
+
     // trim trailing undefined values
     for (let i = node.length - 1; i >= 4; i--) {
       if (node[i] === undefined) {
@@ -51,15 +113,29 @@ export function serializeGraph(
 
     return node;
   });
+}
 
-  const serializedConnections = connections.map((c) => [
+function serializeConnections(connections: Connection[]): (string | number)[][] {
+  return connections.map((c) => [
     c.from.nodeId,
     c.from.port,
     c.to.nodeId,
     c.to.port,
   ]);
+}
 
-  const state: SerializedGraph = [serializedNodes, serializedConnections];
-
-  return JSON.stringify(state);
+function serializeSubgraph(subgraph: Subgraph): SerializedSubgraph {
+  const serialized: SerializedSubgraph = [
+    serializeNodes(subgraph.nodes),
+    serializeConnections(subgraph.connections),
+    subgraph.inputs.map((i) => [i.name, i.type, i.targets.map((t): [string, string] => [t.nodeId, t.port])]),
+    subgraph.outputs.map((o) => [o.name, o.type, o.source.nodeId, o.source.port]),
+  ];
+  if (subgraph.title || subgraph.iterate) {
+    serialized.push(subgraph.title ?? null);
+  }
+  if (subgraph.iterate) {
+    serialized.push(1);
+  }
+  return serialized;
 }
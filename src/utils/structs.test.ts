@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { NodeTypeDef } from "../components/Node/node";
+import { createStructNodeTypes, structPort, StructSchema } from "./structs";
+import { Graph } from "./graph";
+
+const point: StructSchema = {
+  id: "Point",
+  fields: [{ name: "X", type: "number", default: 1 }, { name: "Y", type: "number" }],
+};
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  ...createStructNodeTypes(point),
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  text: {
+    id: "text",
+    inputs: [{ name: "Text", type: "string" }],
+    outputs: [],
+  },
+};
+
+const link = (from: string, fromPort: string, to: string, toPort: string) => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+describe("structs", () => {
+  it("describes struct ports with their fields and defaults", () => {
+    expect(structPort(point)).toEqual({ name: "Point", type: "Point", fields: point.fields, default: { X: 1 } });
+    expect(Object.keys(createStructNodeTypes(point))).toEqual(["make-Point", "break-Point"]);
+  });
+
+  it("assembles and takes apart values", () => {
+    const graph = new Graph({ nodeTypes });
+    const n = graph.addNode("number", 0, 0, { Value: 5 }).id;
+    const make = graph.addNode("make-Point", 0, 0).id;
+    const take = graph.addNode("break-Point", 0, 0).id;
+    graph.connect(link(n, "Out", make, "Y"));
+    expect(graph.connect(link(make, "Point", take, "Point"))).toBeNull();
+
+    const results = graph.evaluate();
+    expect(results[make].Point).toEqual({ X: 1, Y: 5 });
+    expect(results[take]).toMatchObject({ X: 1, Y: 5 });
+  });
+
+  it("only connects struct ports to the same struct", () => {
+    const graph = new Graph({ nodeTypes });
+    const make = graph.addNode("make-Point", 0, 0).id;
+    const text = graph.addNode("text", 0, 0).id;
+    expect(graph.connect(link(make, "Point", text, "Text"))).toMatch(/Cannot connect struct Point to string/);
+  });
+});
@@ -0,0 +1,84 @@
+import { NodeTypeDef, PortDef } from "../components/Node/node";
+
+/**
+ * Shape of a structured value: an object with one entry per field. The schema
+ * `id` is the port type of such values, so struct ports only connect to ports
+ * of the same struct (or the wildcard `ANY_TYPE`).
+ */
+export interface StructSchema {
+  id: string;
+  title?: string; // defaults to the id
+  fields: PortDef[]; // field name and type, plus the usual port metadata for its editor
+  color?: string; // of the generated Make / Break nodes
+}
+
+/**
+ * A port carrying values of the given struct. Its fields let the editor show
+ * one row per field, and new nodes start with the fields' defaults.
+ */
+export function structPort(schema: StructSchema, name: string = schema.title ?? schema.id): PortDef {
+  const defaults = structDefaults(schema.fields);
+  return {
+    name,
+    type: schema.id,
+    fields: schema.fields,
+    ...(Object.keys(defaults).length > 0 ? { default: defaults } : {}),
+  };
+}
+
+function structDefaults(fields: PortDef[]): Record<string, any> {
+  const defaults: Record<string, any> = {};
+  fields.forEach((field) => {
+    if (field.default !== undefined) {
+      defaults[field.name] = field.default;
+    }
+  });
+  return defaults;
+}
+
+/**
+ * Generates the node types assembling and taking apart values of a struct:
+ * "Make X" has one input per field and outputs the struct, "Break X" takes
+ * the struct and outputs its fields. Add them to the node types:
+ * `{ ...nodeTypes, ...createStructNodeTypes(schema) }`.
+ */
+export function createStructNodeTypes(schema: StructSchema): Record<string, NodeTypeDef> {
+  const title = schema.title ?? schema.id;
+  const port = structPort(schema);
+  const makeId = `make-${schema.id}`;
+  const breakId = `break-${schema.id}`;
+
+  return {
+    [makeId]: {
+      id: makeId,
+      title: `Make ${title}`,
+      category: "Struct",
+      color: schema.color,
+      inputs: schema.fields,
+      outputs: [port],
+      compute: (inputs) => {
+        const value: Record<string, any> = {};
+        schema.fields.forEach((field) => {
+          value[field.name] = inputs[field.name];
+        });
+        return { [port.name]: value };
+      },
+    },
+    [breakId]: {
+      id: breakId,
+      title: `Break ${title}`,
+      category: "Struct",
+      color: schema.color,
+      inputs: [port],
+      outputs: schema.fields,
+      compute: (inputs) => {
+        const value = inputs[port.name] ?? {};
+        const outputs: Record<string, any> = {};
+        schema.fields.forEach((field) => {
+          outputs[field.name] = value[field.name];
+        });
+        return outputs;
+      },
+    },
+  };
+}
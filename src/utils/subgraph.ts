@@ -0,0 +1,260 @@
+import { NodeData, NodeTypeDef, Connection, PortRef, Subgraph, SubgraphInput, SubgraphOutput } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+import { createNodeId } from "./ids";
+import { GROUP_NODE_TYPE, MAP_INPUT_TYPE, MAP_OUTPUT_TYPE, getNodeTypeDef } from "./nodeTypes";
+import { isExecConnection } from "./ports";
+import { ANY_TYPE } from "./conversions";
+
+/**
+ * Collapses the given nodes into a new group node. Connections crossing the
+ * selection become the group's ports: one input per outside source port
+ * (feeding every inner port it was connected to) and one output per inside
+ * source port. Throws when the selection cannot be grouped.
+ */
+export function groupNodes(
+  state: GraphState,
+  ids: string[],
+  nodeTypes: Record<string, NodeTypeDef>,
+  title?: string
+): { state: GraphState; groupId: string } {
+  const inside = new Set(ids);
+  const nodesById = new Map(state.nodes.map((n) => [n.id, n]));
+  const members = state.nodes.filter((n) => inside.has(n.id));
+  if (members.length === 0) {
+    throw new Error("Select the nodes to group");
+  }
+
+  const valid = state.connections.filter(
+    (c) => nodesById.has(c.from.nodeId) && nodesById.has(c.to.nodeId)
+  );
+  const incoming = valid.filter((c) => !inside.has(c.from.nodeId) && inside.has(c.to.nodeId));
+  const outgoing = valid.filter((c) => inside.has(c.from.nodeId) && !inside.has(c.to.nodeId));
+
+  if ([...incoming, ...outgoing].some((c) => isExecConnection(c, nodesById, nodeTypes))) {
+    throw new Error("Execution connections cannot cross a group boundary");
+  }
+  if (closesLoop(inside, valid, nodesById, nodeTypes)) {
+    throw new Error("Grouping these nodes would create a cycle");
+  }
+
+  const groupId = createNodeId();
+  const x = Math.min(...members.map((n) => n.x));
+  const y = Math.min(...members.map((n) => n.y));
+
+  // Input and output names share one namespace, like port positions do
+  const usedNames = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let i = 2; usedNames.has(candidate); i++) {
+      candidate = `${name} ${i}`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+  };
+  const portType = (ref: PortRef, direction: "inputs" | "outputs") =>
+    getNodeTypeDef(nodesById.get(ref.nodeId)!, nodeTypes)?.[direction].find((p) => p.name === ref.port)?.type ?? ANY_TYPE;
+
+  const inputs: SubgraphInput[] = [];
+  const outputs: SubgraphOutput[] = [];
+  const boundary: Connection[] = [];
+  const inputsBySource = new Map<string, SubgraphInput>();
+  const outputsBySource = new Map<string, SubgraphOutput>();
+
+  incoming.forEach((c) => {
+    const key = `${c.from.nodeId}-${c.from.port}`;
+    let input = inputsBySource.get(key);
+    if (!input) {
+      input = { name: uniqueName(c.to.port), type: portType(c.to, "inputs"), targets: [] };
+      inputsBySource.set(key, input);
+      inputs.push(input);
+      boundary.push({ from: { nodeId: c.from.nodeId, port: c.from.port }, to: { nodeId: groupId, port: input.name } });
+    }
+    input.targets.push({ nodeId: c.to.nodeId, port: c.to.port });
+  });
+
+  outgoing.forEach((c) => {
+    const key = `${c.from.nodeId}-${c.from.port}`;
+    let output = outputsBySource.get(key);
+    if (!output) {
+      output = { name: uniqueName(c.from.port), type: portType(c.from, "outputs"), source: { nodeId: c.from.nodeId, port: c.from.port } };
+      outputsBySource.set(key, output);
+      outputs.push(output);
+    }
+    boundary.push({ from: { nodeId: groupId, port: output.name }, to: { nodeId: c.to.nodeId, port: c.to.port } });
+  });
+
+  const group: NodeData = {
+    id: groupId,
+    type: GROUP_NODE_TYPE,
+    x,
+    y,
+    data: {},
+    selected: true,
+    subgraph: {
+      ...(title ? { title } : {}),
+      nodes: members.map((n) => ({ ...n, x: n.x - x, y: n.y - y, selected: false })),
+      connections: state.connections.filter((c) => inside.has(c.from.nodeId) && inside.has(c.to.nodeId)),
+      inputs,
+      outputs,
+    },
+  };
+
+  return {
+    groupId,
+    state: {
+      nodes: [...state.nodes.filter((n) => !inside.has(n.id)), group],
+      connections: [
+        ...state.connections.filter((c) => !inside.has(c.from.nodeId) && !inside.has(c.to.nodeId)),
+        ...boundary,
+      ],
+    },
+  };
+}
+
+/**
+ * Whether some outside node is both fed by the selection and feeds it, so that
+ * a group of the selection would depend on itself.
+ */
+function closesLoop(
+  inside: Set<string>,
+  connections: Connection[],
+  nodesById: Map<string, NodeData>,
+  nodeTypes: Record<string, NodeTypeDef>
+): boolean {
+  const forward = connections.filter((c) => {
+    const source = nodesById.get(c.from.nodeId)!;
+    return !getNodeTypeDef(source, nodeTypes)?.feedback && !isExecConnection(c, nodesById, nodeTypes);
+  });
+
+  const reachable = (start: Iterable<string>) => {
+    const visited = new Set<string>();
+    const queue = [...start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      forward.forEach((c) => {
+        if (c.from.nodeId === id && !visited.has(c.to.nodeId)) {
+          visited.add(c.to.nodeId);
+          queue.push(c.to.nodeId);
+        }
+      });
+    }
+    return visited;
+  };
+
+  const downstream = [...reachable(inside)].filter((id) => !inside.has(id));
+  return [...reachable(downstream)].some((id) => inside.has(id));
+}
+
+/**
+ * Replaces a group node by its inner nodes, reconnecting the connections of
+ * its ports to the inner ports they were bound to.
+ */
+export function ungroupNode(state: GraphState, groupId: string): GraphState {
+  const group = state.nodes.find((n) => n.id === groupId);
+  if (!group?.subgraph) {
+    throw new Error("Node is not a group");
+  }
+  if (group.subgraph.iterate) {
+    throw new Error("Map nodes cannot be ungrouped");
+  }
+  const { subgraph } = group;
+
+  const connections: Connection[] = [...subgraph.connections];
+  state.connections.forEach((c) => {
+    if (c.to.nodeId === groupId) {
+      const input = subgraph.inputs.find((i) => i.name === c.to.port);
+      input?.targets.forEach((t) => connections.push({ from: c.from, to: { nodeId: t.nodeId, port: t.port } }));
+    } else if (c.from.nodeId === groupId) {
+      const output = subgraph.outputs.find((o) => o.name === c.from.port);
+      if (output) {
+        connections.push({ from: { nodeId: output.source.nodeId, port: output.source.port }, to: c.to });
+      }
+    } else {
+      connections.push(c);
+    }
+  });
+
+  return {
+    nodes: [
+      ...state.nodes.filter((n) => n.id !== groupId),
+      ...subgraph.nodes.map((n) => ({ ...n, x: n.x + group.x, y: n.y + group.y })),
+    ],
+    connections,
+  };
+}
+
+/**
+ * Returns the subgraph with new inner nodes and connections. Exposed ports
+ * bound to inner nodes that no longer exist are dropped.
+ */
+export function withInnerGraph(subgraph: Subgraph, state: GraphState): Subgraph {
+  const ids = new Set(state.nodes.map((n) => n.id));
+  return {
+    ...subgraph,
+    nodes: state.nodes,
+    connections: state.connections,
+    inputs: subgraph.inputs
+      .map((i) => ({ ...i, targets: i.targets.filter((t) => ids.has(t.nodeId)) }))
+      .filter((i) => i.targets.length > 0),
+    outputs: subgraph.outputs.filter((o) => ids.has(o.source.nodeId)),
+  };
+}
+
+/**
+ * Deep copy of a subgraph with fresh inner node ids, including nested groups.
+ */
+export function cloneSubgraph(subgraph: Subgraph): Subgraph {
+  const ids = new Map(subgraph.nodes.map((n) => [n.id, createNodeId()]));
+  const remap = (ref: PortRef): PortRef => ({ nodeId: ids.get(ref.nodeId) ?? ref.nodeId, port: ref.port });
+
+  return {
+    ...subgraph,
+    nodes: subgraph.nodes.map((n) => ({
+      ...n,
+      id: ids.get(n.id)!,
+      data: n.data && { ...n.data },
+      ...(n.subgraph ? { subgraph: cloneSubgraph(n.subgraph) } : {}),
+    })),
+    connections: subgraph.connections.map((c) => ({ from: remap(c.from), to: remap(c.to) })),
+    inputs: subgraph.inputs.map((i) => ({ ...i, targets: i.targets.map(remap) })),
+    outputs: subgraph.outputs.map((o) => ({ ...o, source: remap(o.source) })),
+  };
+}
+
+export interface MapNodeTypeOptions {
+  id: string;
+  title?: string;
+  itemType: string; // type of the Item port inside the body, e.g. "number" (or ANY_TYPE for items of any type)
+  resultType?: string; // type collected by the body's Collect node (default itemType)
+  color?: string;
+}
+
+/**
+ * Defines a map node type: "for each item, run this chain of nodes". Its
+ * "Items" input takes an array; the body runs once per element and the value
+ * reaching its Collect node in each iteration ends up in the "Results" list.
+ * New nodes start with a body passing every item through; enter the node to
+ * put nodes between its Iteration and Collect nodes. A failing iteration
+ * yields `undefined` and is reported as the node's last error.
+ */
+export function createMapNodeType(options: MapNodeTypeOptions): NodeTypeDef {
+  const itemType = options.itemType;
+  const resultType = options.resultType ?? itemType;
+
+  const subgraph: Subgraph = {
+    title: options.title ?? "For Each",
+    iterate: true,
+    nodes: [
+      { id: "item", type: MAP_INPUT_TYPE, x: 0, y: 0, data: { itemType } },
+      { id: "result", type: MAP_OUTPUT_TYPE, x: 300, y: 0, data: { resultType } },
+    ],
+    connections: itemType === resultType
+      ? [{ from: { nodeId: "item", port: "Item" }, to: { nodeId: "result", port: "Result" } }]
+      : [],
+    inputs: [],
+    outputs: [],
+  };
+
+  const { inputs, outputs, title, category } = getNodeTypeDef({ id: "", type: options.id, x: 0, y: 0, subgraph }, {})!;
+  return { id: options.id, title, category, inputs, outputs, color: options.color, subgraph };
+}
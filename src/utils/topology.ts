@@ -0,0 +1,116 @@
+import { NodeData, Connection } from "../components/Node/node";
+
+/**
+ * Orders nodes so that every node comes after all nodes feeding its inputs.
+ * Nodes that sit on a cycle cannot be ordered and are appended at the end
+ * in their original order.
+ */
+export function topologicalSort(
+  nodes: NodeData[],
+  connections: Connection[]
+): NodeData[] {
+  const byId = new Map<string, NodeData>();
+  const inDegree = new Map<string, number>();
+  const downstream = new Map<string, string[]>();
+
+  nodes.forEach((n) => {
+    byId.set(n.id, n);
+    inDegree.set(n.id, 0);
+    downstream.set(n.id, []);
+  });
+
+  connections.forEach((c) => {
+    if (!byId.has(c.from.nodeId) || !byId.has(c.to.nodeId)) return;
+    downstream.get(c.from.nodeId)!.push(c.to.nodeId);
+    inDegree.set(c.to.nodeId, inDegree.get(c.to.nodeId)! + 1);
+  });
+
+  const queue = nodes.filter((n) => inDegree.get(n.id) === 0).map((n) => n.id);
+  const ordered: NodeData[] = [];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    visited.add(id);
+    ordered.push(byId.get(id)!);
+
+    downstream.get(id)!.forEach((next) => {
+      const degree = inDegree.get(next)! - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) queue.push(next);
+    });
+  }
+
+  nodes.forEach((n) => {
+    if (!visited.has(n.id)) ordered.push(n);
+  });
+
+  return ordered;
+}
+
+/**
+ * Returns the nodes that sit on a cycle (or between cycles), in their original
+ * order; empty when the connections form no cycle.
+ */
+export function findCycle(nodes: NodeData[], connections: Connection[]): NodeData[] {
+  const remaining = new Set(nodes.map((n) => n.id));
+
+  // Drop nodes in dependency order; what cannot be dropped is on a cycle
+  const upstreamCount = new Map<string, number>();
+  const valid = connections.filter((c) => remaining.has(c.from.nodeId) && remaining.has(c.to.nodeId));
+  valid.forEach((c) => upstreamCount.set(c.to.nodeId, (upstreamCount.get(c.to.nodeId) ?? 0) + 1));
+  const queue = nodes.filter((n) => !upstreamCount.get(n.id)).map((n) => n.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    remaining.delete(id);
+    valid.forEach((c) => {
+      if (c.from.nodeId !== id) return;
+      const count = upstreamCount.get(c.to.nodeId)! - 1;
+      upstreamCount.set(c.to.nodeId, count);
+      if (count === 0) queue.push(c.to.nodeId);
+    });
+  }
+
+  // Nodes that only hang off a cycle have no path back into it
+  let changed = true;
+  while (changed) {
+    changed = false;
+    remaining.forEach((id) => {
+      if (!valid.some((c) => c.from.nodeId === id && remaining.has(c.to.nodeId))) {
+        remaining.delete(id);
+        changed = true;
+      }
+    });
+  }
+  return nodes.filter((n) => remaining.has(n.id));
+}
+
+/**
+ * Checks whether adding `candidate` to the connections would close a loop.
+ * Connections leaving nodes accepted by `breaksCycle` (feedback nodes) are
+ * ignored, because those nodes deliver values of the previous evaluation.
+ */
+export function wouldCreateCycle(
+  connections: Connection[],
+  candidate: Connection,
+  breaksCycle: (nodeId: string) => boolean = () => false
+): boolean {
+  const target = candidate.from.nodeId;
+  if (breaksCycle(target)) return false;
+
+  const stack = [candidate.to.nodeId];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === target) return true;
+    if (visited.has(id) || breaksCycle(id)) continue;
+    visited.add(id);
+
+    connections.forEach((c) => {
+      if (c.from.nodeId === id) stack.push(c.to.nodeId);
+    });
+  }
+
+  return false;
+}
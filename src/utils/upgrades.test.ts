@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { NodeData, NodeTypeDef } from "../components/Node/node";
+import { upgradeGraph } from "./upgrades";
+import { Graph } from "./graph";
+import { serializeGraph } from "./serialize";
+import { readGraph } from "./deserialize";
+
+const scale: NodeTypeDef = {
+  id: "scale",
+  version: 3,
+  inputs: [{ name: "Factor", type: "number" }],
+  outputs: [{ name: "Result", type: "number" }],
+  upgrades: {
+    1: { renamePorts: { F: "Factor" } },
+    2: { data: (data) => ({ ...data, Factor: data.Factor * 100 }) },
+  },
+};
+const nodeTypes: Record<string, NodeTypeDef> = {
+  scale,
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any>, version?: number): NodeData =>
+  ({ id, type, x: 0, y: 0, data, ...(version ? { version } : {}) });
+
+describe("upgradeGraph", () => {
+  it("applies every step from the saved version", () => {
+    const state = { nodes: [node("s", "scale", { F: 2 }, 1)], connections: [] };
+    const [upgraded] = upgradeGraph(state, nodeTypes).nodes;
+    expect(upgraded.data).toEqual({ Factor: 200 });
+    expect(upgraded.version).toBe(3);
+  });
+
+  it("renames connected ports", () => {
+    const state = {
+      nodes: [node("n", "number", {}), node("s", "scale", {}, 1)],
+      connections: [{ from: { nodeId: "n", port: "Out" }, to: { nodeId: "s", port: "F" } }],
+    };
+    expect(upgradeGraph(state, nodeTypes).connections[0].to).toEqual({ nodeId: "s", port: "Factor" });
+  });
+
+  it("upgrades nodes inside groups", () => {
+    const group: NodeData = {
+      ...node("g", "group", {}),
+      subgraph: { nodes: [node("s", "scale", { Factor: 3 }, 2)], connections: [], inputs: [], outputs: [] },
+    };
+    const [upgraded] = upgradeGraph({ nodes: [group], connections: [] }, nodeTypes).nodes;
+    expect(upgraded.subgraph!.nodes[0].data).toEqual({ Factor: 300 });
+  });
+
+  it("reports nodes saved with a newer version", () => {
+    const messages: string[] = [];
+    const state = { nodes: [node("s", "scale", { Factor: 1 }, 4)], connections: [] };
+    expect(upgradeGraph(state, nodeTypes, (message) => messages.push(message))).toBe(state);
+    expect(messages).toHaveLength(1);
+  });
+
+  it("takes nodes without a version to be current", () => {
+    const [stamped] = upgradeGraph({ nodes: [node("s", "scale", { Factor: 2 })], connections: [] }, nodeTypes).nodes;
+    expect(stamped).toMatchObject({ data: { Factor: 2 }, version: 3 });
+  });
+
+  it("does not upgrade nodes given to a graph again after a round trip", () => {
+    const graph = new Graph({ nodeTypes, nodes: [node("s", "scale", { Factor: 2 })] });
+    graph.setState({ nodes: [...graph.nodes, node("t", "scale", { Factor: 4 })], connections: [] });
+    const copy = Graph.fromJSON(graph.toJSON(), nodeTypes);
+    expect(copy.nodes.map((n) => n.data!.Factor)).toEqual([2, 4]);
+  });
+
+  it("upgrades saved nodes without a version from version 1", () => {
+    const json = serializeGraph([node("s", "scale", { F: 2 }, 1)], []);
+    expect(readGraph(json, nodeTypes).graph.nodes[0].data).toEqual({ Factor: 200 });
+  });
+
+  it("returns current graphs untouched", () => {
+    const state = { nodes: [node("s", "scale", { Factor: 1 }, 3)], connections: [] };
+    expect(upgradeGraph(state, nodeTypes)).toBe(state);
+  });
+});
@@ -0,0 +1,120 @@
+import { NodeData, NodeTypeDef, Connection, PortRef, Subgraph } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+
+type Report = (message: string, nodeId?: string) => void;
+
+// Port renames per upgraded node: saved name -> current name
+type Renames = Map<string, Record<string, string>>;
+
+/**
+ * Brings nodes saved with older versions of their types up to the registered
+ * versions, applying the types' `upgrades` step by step, also inside groups.
+ * Connections and the exposed ports of groups follow renamed ports. Missing
+ * steps change nothing; nodes saved with a newer version than the registered
+ * one are reported and left as they are. Nodes without a version are taken to
+ * be current and get the registered version, so that they are saved with it.
+ * Returns the state itself when nothing needed upgrading.
+ */
+export function upgradeGraph<S extends GraphState>(
+  state: S,
+  nodeTypes: Record<string, NodeTypeDef>,
+  report: Report = () => {}
+): S {
+  return upgradeState(state, nodeTypes, report).state;
+}
+
+function upgradeState<S extends GraphState>(
+  state: S,
+  nodeTypes: Record<string, NodeTypeDef>,
+  report: Report
+): { state: S; renames: Renames } {
+  const renames: Renames = new Map();
+  let changed = false;
+
+  const nodes = state.nodes.map((n) => {
+    let node = n;
+    if (n.subgraph) {
+      const inner: Report = (message, innerId) => report(innerId ? `${message} (inner node "${innerId}")` : message, n.id);
+      const subgraph = upgradeSubgraph(n.subgraph, nodeTypes, inner);
+      if (subgraph !== n.subgraph) {
+        node = { ...n, subgraph };
+      }
+    }
+
+    const typeDef = nodeTypes[n.type];
+    const latest = typeDef?.version ?? 1;
+    const version = n.version ?? latest;
+    if (typeDef?.version && n.version === undefined) {
+      node = { ...node, version: latest };
+    } else if (typeDef && version > latest) {
+      report(`Node was saved with version ${version} of type "${n.type}", but version ${latest} is registered`, n.id);
+    } else if (typeDef && version < latest) {
+      const upgraded = upgradeNode(node, typeDef, latest);
+      node = upgraded.node;
+      if (Object.keys(upgraded.renamed).length > 0) {
+        renames.set(n.id, upgraded.renamed);
+      }
+    }
+
+    if (node !== n) changed = true;
+    return node;
+  });
+
+  if (!changed) return { state, renames };
+  const connections = state.connections.map((c: Connection) => {
+    const from = renameRef(c.from, renames);
+    const to = renameRef(c.to, renames);
+    return from === c.from && to === c.to ? c : { ...c, from, to };
+  });
+  return { state: { ...state, nodes, connections }, renames };
+}
+
+function upgradeSubgraph(subgraph: Subgraph, nodeTypes: Record<string, NodeTypeDef>, report: Report): Subgraph {
+  const { state, renames } = upgradeState(subgraph, nodeTypes, report);
+  if (state === subgraph) return subgraph;
+  return {
+    ...state,
+    inputs: state.inputs.map((i) => ({ ...i, targets: i.targets.map((t) => renameRef(t, renames)) })),
+    outputs: state.outputs.map((o) => ({ ...o, source: renameRef(o.source, renames) })),
+  };
+}
+
+function renameRef(ref: PortRef, renames: Renames): PortRef {
+  const port = renames.get(ref.nodeId)?.[ref.port];
+  return port === undefined ? ref : { ...ref, port };
+}
+
+/**
+ * Runs the upgrade steps of one node from its saved version up to `latest`.
+ * Returns the upgraded node and how its saved port names were renamed.
+ */
+function upgradeNode(
+  node: NodeData,
+  typeDef: NodeTypeDef,
+  latest: number
+): { node: NodeData; renamed: Record<string, string> } {
+  let data = { ...node.data };
+  const renamed: Record<string, string> = {};
+
+  for (let v = node.version ?? 1; v < latest; v++) {
+    const step = typeDef.upgrades?.[v];
+    if (!step) continue;
+
+    const renamePorts = step.renamePorts ?? {};
+    const next: Record<string, string> = {};
+    Object.entries(renamePorts).forEach(([from, to]) => {
+      // The saved port now called `from`, if any
+      const saved = Object.keys(renamed).find((k) => renamed[k] === from) ?? (from in renamed ? undefined : from);
+      if (saved !== undefined) next[saved] = to;
+    });
+    Object.assign(renamed, next);
+
+    const moved: Record<string, any> = {};
+    Object.keys(data).forEach((key) => {
+      moved[renamePorts[key] ?? key] = data[key];
+    });
+    data = step.data ? step.data(moved, node) : moved;
+  }
+
+  return { node: { ...node, data, version: latest }, renamed };
+}
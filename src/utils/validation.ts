@@ -0,0 +1,145 @@
+import { NodeData, NodeTypeDef, PortDef, Connection } from "../components/Node/node";
+import { GraphState } from "./deserialize";
+import { wouldCreateCycle } from "./topology";
+import { isExecConnection, isExecPort } from "./ports";
+import { getNodeTypeDef, getPlaceholderTypeDef, isTypeVariable } from "./nodeTypes";
+import { TypeConversion, areTypesCompatible } from "./conversions";
+
+/**
+ * App-specific connection rule, checked after the built-in ones. Returns the
+ * reason to reject the candidate, or null (or undefined) to allow it. `graph`
+ * is the state the candidate would be added to.
+ */
+export type ConnectionValidator = (candidate: Connection, graph: GraphState) => string | null | undefined;
+
+/**
+ * A connection refused by a `ConnectionValidator` when loading a graph.
+ */
+export interface RejectedConnection {
+  connection: Connection;
+  reason: string;
+}
+
+/**
+ * Checks whether a connection may be added to the graph. Returns a message
+ * explaining why it is rejected, or null when it is valid. Ports of different
+ * types may only be connected through one of the given conversions; unbound
+ * type variables accept any type. Candidates passing the built-in checks are
+ * handed to `validator`, if given.
+ */
+export function validateConnection(
+  candidate: Connection,
+  state: GraphState,
+  nodeTypes: Record<string, NodeTypeDef>,
+  conversions: TypeConversion[] = [],
+  validator?: ConnectionValidator
+): string | null {
+  const { nodes, connections } = state;
+  const { nodeId: fromNodeId, port: fromPortName } = candidate.from;
+  const { nodeId: toNodeId, port: toPortName } = candidate.to;
+
+  const fromNode = nodes.find(n => n.id === fromNodeId);
+  const toNode = nodes.find(n => n.id === toNodeId);
+  // Placeholders for unregistered types can be reconnected through their ports
+  const typeDefOf = (node: NodeData | undefined) =>
+    node && (getNodeTypeDef(node, nodeTypes) ?? getPlaceholderTypeDef(node, connections));
+  const fromNodeType = typeDefOf(fromNode);
+  const toNodeType = typeDefOf(toNode);
+
+  const fromPortDef = fromNodeType?.outputs.find(p => p.name === fromPortName);
+  const toPortDef = toNodeType?.inputs.find(p => p.name === toPortName);
+
+  if (fromNodeId === toNodeId) {
+    return "Cannot connect a node to itself";
+  }
+  if (!fromNodeType || !toNodeType) {
+    return "Invalid node types";
+  }
+  if (!fromPortDef || !toPortDef) {
+    return "Port not found in node definition";
+  }
+  const isExec = isExecPort(fromPortDef);
+  if (isExec !== isExecPort(toPortDef)) {
+    return "Cannot connect an execution port to a data port";
+  }
+  const isGeneric = isTypeVariable(fromNodeType, fromPortDef) || isTypeVariable(toNodeType, toPortDef);
+  if (!isExec && !isGeneric && !areTypesCompatible(fromPortDef.type, toPortDef.type, conversions)) {
+    if (fromPortDef.fields || toPortDef.fields) {
+      return `Cannot connect ${describeType(fromPortDef)} to ${describeType(toPortDef)}: structs only connect to the same struct`;
+    }
+    return `Cannot connect ports of different types: ${fromPortDef.type} and ${toPortDef.type}`;
+  }
+
+  const isDuplicate = connections.some(
+    e => e.from.nodeId === fromNodeId &&
+      e.from.port === fromPortName &&
+      e.to.nodeId === toNodeId &&
+      e.to.port === toPortName
+  );
+  if (isDuplicate) {
+    return "This connection already exists";
+  }
+
+  // Exec inputs may be reached from several places; they also never form data
+  // dependencies, so loops through them are fine
+  if (isExec) {
+    return validator?.(candidate, state) ?? null;
+  }
+
+  const inputAlreadyConnected = connections.some(
+    e => e.to.nodeId === toNodeId && e.to.port === toPortName
+  );
+  if (inputAlreadyConnected && !toPortDef.multi) {
+    return `Input port "${toPortName}" is already connected`;
+  }
+
+  const isFeedbackNode = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    return !!(node && getNodeTypeDef(node, nodeTypes)?.feedback);
+  };
+  const nodesById = new Map(nodes.map(n => [n.id, n]));
+  const dataConnections = connections.filter(c => !isExecConnection(c, nodesById, nodeTypes));
+  if (wouldCreateCycle(dataConnections, candidate, isFeedbackNode)) {
+    return "This connection would create a cycle; close loops through a feedback node";
+  }
+
+  return validator?.(candidate, state) ?? null;
+}
+
+/**
+ * Runs an app's connection rules over a loaded graph, including the inner
+ * graphs of groups. Connections are replayed in order, each checked against
+ * the graph holding the ones accepted before it, so that rules limiting counts
+ * keep the first connections. Returns the graph without the refused ones.
+ */
+export function applyConnectionValidator(
+  state: GraphState,
+  validator: ConnectionValidator
+): { state: GraphState; rejected: RejectedConnection[] } {
+  const rejected: RejectedConnection[] = [];
+
+  const check = (level: GraphState): GraphState => {
+    const nodes = level.nodes.map((n) => {
+      if (!n.subgraph) return n;
+      const inner = check(n.subgraph);
+      return inner === n.subgraph ? n : { ...n, subgraph: { ...n.subgraph, ...inner } };
+    });
+
+    const accepted: Connection[] = [];
+    level.connections.forEach((connection) => {
+      const reason = validator(connection, { nodes, connections: accepted });
+      if (reason) {
+        rejected.push({ connection, reason });
+      } else {
+        accepted.push(connection);
+      }
+    });
+
+    const unchanged = accepted.length === level.connections.length && nodes.every((n, i) => n === level.nodes[i]);
+    return unchanged ? level : { nodes, connections: accepted };
+  };
+
+  return { state: check(state), rejected };
+}
+
+const describeType = (port: PortDef): string => (port.fields ? `struct ${port.type}` : port.type);
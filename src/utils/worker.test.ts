@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { Connection, NodeData, NodeTypeDef } from "../components/Node/node";
+import { WorkerGraphEvaluator, registerEvaluationWorker } from "./worker";
+
+const nodeTypes: Record<string, NodeTypeDef> = {
+  number: {
+    id: "number",
+    inputs: [{ name: "Value", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ Value }) => ({ Out: Value }),
+  },
+  double: {
+    id: "double",
+    inputs: [{ name: "In", type: "number" }],
+    outputs: [{ name: "Out", type: "number" }],
+    compute: ({ In }) => ({ Out: In * 2 }),
+  },
+  callback: {
+    id: "callback",
+    inputs: [],
+    outputs: [{ name: "Out", type: "function" }],
+    compute: async () => ({ Out: () => 1 }),
+  },
+};
+
+const node = (id: string, type: string, data: Record<string, any> = {}): NodeData => ({ id, type, x: 0, y: 0, data });
+const link = (from: string, fromPort: string, to: string, toPort: string): Connection => ({
+  from: { nodeId: from, port: fromPort },
+  to: { nodeId: to, port: toPort },
+});
+
+// Both ends of a worker connection; messages are cloned and delivered
+// asynchronously like postMessage does
+function createChannel() {
+  type Listener = (e: MessageEvent) => void;
+  const listeners = { main: new Set<Listener>(), worker: new Set<Listener>() };
+  const endpoint = (own: "main" | "worker", other: "main" | "worker") => ({
+    postMessage: vi.fn((message: any) => {
+      const data = structuredClone(message);
+      queueMicrotask(() => listeners[other].forEach((listener) => listener({ data } as MessageEvent)));
+    }),
+    addEventListener: (_type: "message", listener: Listener) => listeners[own].add(listener),
+    removeEventListener: (_type: "message", listener: Listener) => listeners[own].delete(listener),
+  });
+  return { main: endpoint("main", "worker"), worker: endpoint("worker", "main") };
+}
+
+describe("WorkerGraphEvaluator", () => {
+  it("evaluates graphs in the worker", async () => {
+    const channel = createChannel();
+    const stop = registerEvaluationWorker(nodeTypes, channel.worker);
+    const evaluator = new WorkerGraphEvaluator(channel.main);
+
+    evaluator.update([node("n", "number", { Value: 3 }), node("d", "double")], [link("n", "Out", "d", "In")]);
+    const results = await evaluator.whenIdle();
+    expect(results.d.Out).toBe(6);
+    expect(evaluator.getNodeStates().d.status).toBe("done");
+    stop();
+  });
+
+  it("only sends graphs whose evaluation may have changed", () => {
+    const channel = createChannel();
+    const evaluator = new WorkerGraphEvaluator(channel.main);
+    const n = node("n", "number", { Value: 3 });
+    const connections: Connection[] = [];
+
+    evaluator.update([n], connections);
+    evaluator.update([{ ...n, x: 10, selected: true }], connections);
+    expect(channel.main.postMessage).toHaveBeenCalledTimes(1);
+    evaluator.update([{ ...n, data: { Value: 4 } }], connections);
+    expect(channel.main.postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting when results cannot be sent back", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const channel = createChannel();
+    const stop = registerEvaluationWorker(nodeTypes, channel.worker);
+    const evaluator = new WorkerGraphEvaluator(channel.main);
+
+    evaluator.update([node("c", "callback")], []);
+    await evaluator.whenIdle();
+    expect(error).toHaveBeenCalledWith("Error in evaluation worker:", expect.any(String));
+    stop();
+    error.mockRestore();
+  });
+});
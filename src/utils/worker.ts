@@ -0,0 +1,238 @@
+import { NodeData, NodeTypeDef, Connection } from "../components/Node/node";
+import { GraphEvaluator, GraphEvaluatorOptions, GraphResults, GraphNodeStates } from "./evaluate";
+import { serializeGraph } from "./serialize";
+import { deserializeGraph } from "./deserialize";
+
+/**
+ * Message sent from the main thread to the evaluation worker.
+ */
+export type EvaluationWorkerRequest = {
+  type: "evaluate";
+  graph: string; // output of serializeGraph
+  revision: number;
+};
+
+/**
+ * Message streamed back from the evaluation worker. A "results" message is
+ * sent after every evaluation pass and whenever an asynchronous node settles.
+ */
+export type EvaluationWorkerResponse =
+  | {
+    type: "results";
+    revision: number; // revision of the latest graph the worker received
+    results: GraphResults;
+    states: GraphNodeStates;
+    pending: boolean; // whether asynchronous nodes are still running
+  }
+  | {
+    type: "error";
+    message: string;
+  };
+
+/**
+ * Minimal messaging surface shared by Worker and the worker global scope.
+ */
+interface MessageEndpoint {
+  postMessage(message: any): void;
+  addEventListener(type: "message", listener: (e: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (e: MessageEvent) => void): void;
+}
+
+/**
+ * Runs inside a worker script. Evaluates graphs sent by `WorkerGraphEvaluator`
+ * with the given node types, which have to be imported by the worker script
+ * itself because functions cannot be sent to a worker.
+ *
+ * ```ts
+ * // evaluation.worker.ts
+ * import { registerEvaluationWorker } from "preact-node-system";
+ * import { nodeTypes } from "./nodeTypes";
+ * registerEvaluationWorker(nodeTypes);
+ * ```
+ */
+export function registerEvaluationWorker(
+  nodeTypes: Record<string, NodeTypeDef>,
+  scope: MessageEndpoint = self as unknown as MessageEndpoint,
+  options: GraphEvaluatorOptions = {}
+): () => void {
+  const evaluator = new GraphEvaluator(nodeTypes, options);
+  // Deserialized nodes always carry fresh data (and subgraph) objects; reuse
+  // the previous ones when the content is equal so that evaluation stays
+  // incremental.
+  let previousData = new Map<string, { json: string; node: NodeData }>();
+  let revision = 0;
+
+  const postError = (err: unknown) => {
+    const response: EvaluationWorkerResponse = {
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    };
+    scope.postMessage(response);
+  };
+
+  const post = () => {
+    const states = evaluator.getNodeStates();
+    const response: EvaluationWorkerResponse = {
+      type: "results",
+      revision,
+      results: evaluator.getResults(),
+      states,
+      pending: Object.values(states).some((s) => s.status === "pending"),
+    };
+    try {
+      scope.postMessage(response);
+    } catch (err) {
+      // Results that cannot be cloned (functions, DOM objects) must still end the wait
+      postError(err);
+    }
+  };
+
+  const unsubscribe = evaluator.subscribe(post);
+
+  const handleMessage = (e: MessageEvent) => {
+    const request = e.data as EvaluationWorkerRequest;
+    if (!request || request.type !== "evaluate") return;
+    revision = request.revision;
+
+    try {
+      const { nodes, connections } = deserializeGraph(request.graph);
+      const nextData = new Map<string, { json: string; node: NodeData }>();
+
+      const stableNodes = nodes.map((n) => {
+        const json = JSON.stringify([n.data ?? {}, n.subgraph ?? null, n.inputs ?? null, n.outputs ?? null]);
+        const previous = previousData.get(n.id);
+        const node = previous && previous.json === json
+          ? { ...n, data: previous.node.data, subgraph: previous.node.subgraph, inputs: previous.node.inputs, outputs: previous.node.outputs }
+          : n;
+        nextData.set(n.id, { json, node });
+        return node;
+      });
+
+      previousData = nextData;
+      evaluator.update(stableNodes, connections);
+      post();
+    } catch (err) {
+      postError(err);
+    }
+  };
+
+  scope.addEventListener("message", handleMessage);
+
+  return () => {
+    scope.removeEventListener("message", handleMessage);
+    unsubscribe();
+    evaluator.dispose();
+  };
+}
+
+/**
+ * Main thread counterpart of `registerEvaluationWorker`. Mirrors the
+ * `GraphEvaluator` API, but only sends the graph to the worker when something
+ * relevant for evaluation changed - moving or selecting nodes never does.
+ * Results stream back asynchronously and are announced to subscribers.
+ */
+export class WorkerGraphEvaluator {
+  private worker: MessageEndpoint;
+  private lastNodes = new Map<string, NodeData>();
+  private lastConnections: Connection[] | null = null;
+  private results: GraphResults = {};
+  private states: GraphNodeStates = {};
+  private pending = false;
+  private revision = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(worker: MessageEndpoint) {
+    this.worker = worker;
+    this.worker.addEventListener("message", this.handleMessage);
+  }
+
+  getResults(): GraphResults {
+    return this.results;
+  }
+
+  getNodeStates(): GraphNodeStates {
+    return this.states;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves with the results once the worker reports no pending work.
+   */
+  whenIdle(): Promise<GraphResults> {
+    if (!this.pending) return Promise.resolve(this.results);
+
+    return new Promise((resolve) => {
+      const unsubscribe = this.subscribe(() => {
+        if (!this.pending) {
+          unsubscribe();
+          resolve(this.results);
+        }
+      });
+    });
+  }
+
+  /**
+   * Stops listening to the worker. The worker itself is owned by the caller.
+   */
+  dispose(): void {
+    this.worker.removeEventListener("message", this.handleMessage);
+    this.listeners.clear();
+  }
+
+  /**
+   * Sends the graph to the worker if it changed in a way that affects
+   * evaluation. Returns the latest results received so far.
+   */
+  update(nodes: NodeData[], connections: Connection[]): GraphResults {
+    const changed =
+      connections !== this.lastConnections ||
+      nodes.length !== this.lastNodes.size ||
+      nodes.some((n) => {
+        const previous = this.lastNodes.get(n.id);
+        return !previous || previous.type !== n.type || previous.data !== n.data || previous.subgraph !== n.subgraph ||
+          previous.inputs !== n.inputs || previous.outputs !== n.outputs;
+      });
+
+    this.lastNodes = new Map(nodes.map((n) => [n.id, n]));
+    this.lastConnections = connections;
+
+    if (changed) {
+      this.pending = true;
+      this.revision++;
+      const request: EvaluationWorkerRequest = {
+        type: "evaluate",
+        graph: serializeGraph(nodes, connections),
+        revision: this.revision,
+      };
+      this.worker.postMessage(request);
+    }
+
+    return this.results;
+  }
+
+  private handleMessage = (e: MessageEvent) => {
+    const response = e.data as EvaluationWorkerResponse;
+    if (!response) return;
+
+    if (response.type === "error") {
+      console.error("Error in evaluation worker:", response.message);
+      this.pending = false;
+      this.listeners.forEach((listener) => listener());
+      return;
+    }
+
+    if (response.type === "results") {
+      this.results = response.results;
+      this.states = response.states;
+      // Results of an older graph keep us pending until the latest one arrives
+      this.pending = response.pending || response.revision < this.revision;
+      this.listeners.forEach((listener) => listener());
+    }
+  };
+}